@@ -0,0 +1,174 @@
+import type { TokenConfig } from "../types.js";
+
+// ── Types ─────────────────────────────────────────────────────────
+
+/**
+ * How to drop digits beyond `precision`. "trunc" rounds toward zero,
+ * "half-up" rounds halves away from zero, "half-even" to the even neighbour.
+ */
+export type RoundingMode = "trunc" | "floor" | "ceil" | "half-up" | "half-even";
+
+export interface FormatAmountOptions {
+  /** Fraction digits to show (default: all of `decimals`) */
+  precision?: number;
+  /** Default "trunc", so a displayed balance never exceeds the real one */
+  rounding?: RoundingMode;
+  /** Drop trailing zeros of the fraction (and the point if nothing is left) */
+  trimZeros?: boolean;
+  /** Thousands separator for the integer part: `true` for ",", or a custom string */
+  separator?: boolean | string;
+  /** Prefix "+" on non-negative values, e.g. for deltas */
+  signed?: boolean;
+}
+
+export interface ParseAmountOptions {
+  /**
+   * How to handle more fraction digits than `decimals`. Without it, such
+   * input is rejected rather than silently truncated.
+   */
+  rounding?: RoundingMode;
+}
+
+// ── Integer Helpers ───────────────────────────────────────────────
+
+function pow10(n: number): bigint {
+  return 10n ** BigInt(n);
+}
+
+/** `n / d` rounded per `mode` (d > 0) */
+function divRound(n: bigint, d: bigint, mode: RoundingMode): bigint {
+  const q = n / d; // truncates toward zero
+  const r = n % d;
+  if (r === 0n) return q;
+
+  const away = n < 0n ? q - 1n : q + 1n;
+  const twiceR = (r < 0n ? -r : r) * 2n;
+  switch (mode) {
+    case "trunc":
+      return q;
+    case "floor":
+      return n < 0n ? away : q;
+    case "ceil":
+      return n < 0n ? q : away;
+    case "half-up":
+      return twiceR >= d ? away : q;
+    case "half-even":
+      if (twiceR !== d) return twiceR > d ? away : q;
+      return q % 2n === 0n ? q : away;
+  }
+}
+
+function toBigInt(raw: bigint | number | string): bigint {
+  if (typeof raw === "bigint") return raw;
+  if (typeof raw === "number" && !Number.isInteger(raw)) {
+    throw new Error(`Amount ${raw} is not an integer number of base units`);
+  }
+  return BigInt(raw);
+}
+
+function groupThousands(digits: string, separator: string): string {
+  return digits.replace(/\B(?=(\d{3})+(?!\d))/g, separator);
+}
+
+// ── Formatting ────────────────────────────────────────────────────
+
+/**
+ * Format base units as a decimal string, exactly — no `Number` conversion,
+ * so u64/u128 amounts and 18-decimal tokens keep every digit.
+ * `formatAmount(-1234567n, 6)` → "-1.234567".
+ */
+export function formatAmount(
+  raw: bigint | number | string,
+  decimals: number,
+  options: FormatAmountOptions = {},
+): string {
+  const value = toBigInt(raw);
+  const precision = options.precision ?? decimals;
+  if (!Number.isInteger(precision) || precision < 0) {
+    throw new Error(`Invalid precision ${precision}`);
+  }
+
+  const scaled =
+    precision <= decimals
+      ? divRound(value, pow10(decimals - precision), options.rounding ?? "trunc")
+      : value * pow10(precision - decimals);
+
+  const negative = scaled < 0n;
+  const abs = negative ? -scaled : scaled;
+  const unit = pow10(precision);
+
+  let intPart = (abs / unit).toString();
+  let fracPart = precision > 0 ? (abs % unit).toString().padStart(precision, "0") : "";
+  if (options.trimZeros) fracPart = fracPart.replace(/0+$/, "");
+
+  if (options.separator) {
+    intPart = groupThousands(
+      intPart,
+      options.separator === true ? "," : options.separator,
+    );
+  }
+
+  const sign = negative ? "-" : options.signed ? "+" : "";
+  return `${sign}${intPart}${fracPart ? `.${fracPart}` : ""}`;
+}
+
+/** Format base units of a token, e.g. `formatTokenAmount(1500000n, USDC)` → "1.500000" */
+export function formatTokenAmount(
+  raw: bigint | number | string,
+  token: TokenConfig,
+  options?: FormatAmountOptions,
+): string {
+  return formatAmount(raw, token.decimals, options);
+}
+
+// ── Parsing ───────────────────────────────────────────────────────
+
+const AMOUNT = /^([+-]?)(\d[\d,_]*)?(?:\.(\d*))?$/;
+/** Integer part: plain digits, or groups of three after one kind of separator */
+const GROUPED = /^(?:\d+|\d{1,3}(?:,\d{3})+|\d{1,3}(?:_\d{3})+)$/;
+
+/** Whether `value` is a well-formed human amount, whatever the token's decimals */
+export function isAmountString(value: string): boolean {
+  const match = AMOUNT.exec(value.trim());
+  return (
+    match !== null &&
+    (match[2] !== undefined || !!match[3]) &&
+    (match[2] === undefined || GROUPED.test(match[2]))
+  );
+}
+
+/**
+ * Parse a human amount ("1.5", "-0.25", "1,000", ".5") into base units for
+ * `decimals` (or a `TokenConfig`). Throws on malformed input, including
+ * separators that don't group thousands ("1,00,0"), and on more fraction
+ * digits than `decimals` unless `options.rounding` is set.
+ */
+export function parseAmount(
+  value: string,
+  decimals: number | TokenConfig,
+  options: ParseAmountOptions = {},
+): bigint {
+  const d = typeof decimals === "number" ? decimals : decimals.decimals;
+  const match = AMOUNT.exec(value.trim());
+  if (!match || (match[2] === undefined && !match[3])) {
+    throw new Error(`Invalid amount "${value}"`);
+  }
+
+  const [, sign, intRaw = "0", frac = ""] = match;
+  if (!GROUPED.test(intRaw)) {
+    throw new Error(`Invalid amount "${value}": misplaced separator`);
+  }
+  const digits = intRaw.replace(/[,_]/g, "");
+
+  const negate = (n: bigint) => (sign === "-" ? -n : n);
+  if (frac.length <= d) {
+    return negate(BigInt(digits + frac.padEnd(d, "0")));
+  }
+  if (options.rounding) {
+    // Round the signed value, so "floor" / "ceil" respect the sign
+    return divRound(negate(BigInt(digits + frac)), pow10(frac.length - d), options.rounding);
+  }
+  throw new Error(
+    `Amount "${value}" has more than ${d} decimal place${d === 1 ? "" : "s"}`,
+  );
+}
@@ -1,5 +1,41 @@
-import type { Aptos } from "@aptos-labs/ts-sdk";
+import type { Aptos, MoveStructId } from "@aptos-labs/ts-sdk";
 import type { TokenConfig } from "../types.js";
+import { isNotFound } from "./util.js";
+
+// ── Token Components ──────────────────────────────────────────────
+
+/**
+ * Balance-map keys a token is made of: its FA metadata address and/or its
+ * legacy coin type. A paired token (coin + FA twin) has both, and its
+ * logical balance is their sum.
+ */
+export function tokenComponents(token: TokenConfig): string[] {
+  const keys: string[] = [];
+  if (token.metadata) keys.push(token.metadata);
+  if (token.coinType) keys.push(token.coinType);
+  if (keys.length === 0) {
+    throw new Error(`Token "${token.symbol}" needs a metadata address or a coinType`);
+  }
+  return keys;
+}
+
+/** Logical balance of a token from a component-keyed balance map */
+export function tokenBalance(
+  balances: Map<string, bigint>,
+  token: TokenConfig,
+): bigint {
+  let total = 0n;
+  for (const key of tokenComponents(token)) total += balances.get(key) ?? 0n;
+  return total;
+}
+
+/** Whether `id` names this token (its metadata address or coin type) */
+export function tokenMatches(token: TokenConfig, id: string | undefined): boolean {
+  if (!id) return false;
+  return tokenComponents(token).some((k) => k.toLowerCase() === id.toLowerCase());
+}
+
+// ── Balance Queries ───────────────────────────────────────────────
 
 export async function getFABalance(
   aptos: Aptos,
@@ -22,6 +58,35 @@ export async function getFABalance(
   return 0n;
 }
 
+/**
+ * Balance of a legacy `0x1::coin::CoinStore<coinType>`: 0 if the store
+ * doesn't exist; any other failure is thrown
+ */
+export async function getCoinBalance(
+  aptos: Aptos,
+  owner: string,
+  coinType: string,
+): Promise<bigint> {
+  return readCoinBalance(aptos, owner, coinType);
+}
+
+/** Balance of every component of a token, keyed as in `tokenComponents` */
+export async function getTokenComponentBalances(
+  aptos: Aptos,
+  owner: string,
+  token: TokenConfig,
+): Promise<Map<string, bigint>> {
+  tokenComponents(token); // throws if the token names neither
+  const [fa, coin] = await Promise.all([
+    token.metadata ? getFABalance(aptos, owner, token.metadata) : null,
+    token.coinType ? getCoinBalance(aptos, owner, token.coinType) : null,
+  ]);
+  const result = new Map<string, bigint>();
+  if (token.metadata && fa !== null) result.set(token.metadata, fa);
+  if (token.coinType && coin !== null) result.set(token.coinType, coin);
+  return result;
+}
+
 export async function getBalances(
   aptos: Aptos,
   owner: string,
@@ -30,8 +95,8 @@ export async function getBalances(
   const result = new Map<string, bigint>();
   await Promise.all(
     tokens.map(async (t) => {
-      const bal = await getFABalance(aptos, owner, t.metadata);
-      result.set(t.symbol, bal);
+      const components = await getTokenComponentBalances(aptos, owner, t);
+      result.set(t.symbol, tokenBalance(components, t));
     }),
   );
   return result;
@@ -58,6 +123,80 @@ export async function getFABalanceSafe(
   }
 }
 
-export function formatAmount(raw: bigint | number, decimals: number): string {
-  return (Number(raw) / 10 ** decimals).toFixed(decimals);
+// ── Node Reads (ledger-pinned) ────────────────────────────────────
+
+function versionOption(ledgerVersion?: bigint) {
+  return ledgerVersion !== undefined ? { ledgerVersion } : undefined;
+}
+
+/**
+ * Primary-store FA balance from the node via `primary_fungible_store::balance`,
+ * optionally at a ledger version. Unlike `getFABalance`, errors are thrown.
+ */
+export async function readFABalance(
+  aptos: Aptos,
+  owner: string,
+  metadata: string,
+  ledgerVersion?: bigint,
+): Promise<bigint> {
+  const [balance] = await aptos.view<[string]>({
+    payload: {
+      function: "0x1::primary_fungible_store::balance",
+      typeArguments: ["0x1::fungible_asset::Metadata"],
+      functionArguments: [owner, metadata],
+    },
+    options: versionOption(ledgerVersion),
+  });
+  return BigInt(balance);
+}
+
+/**
+ * `CoinStore<coinType>` balance from the node, optionally at a ledger
+ * version. A missing store is 0; any other failure is thrown. (The
+ * `coin::balance` view isn't used because it adds the paired FA balance.)
+ */
+export async function readCoinBalance(
+  aptos: Aptos,
+  owner: string,
+  coinType: string,
+  ledgerVersion?: bigint,
+): Promise<bigint> {
+  try {
+    const store = await aptos.getAccountResource<{ coin: { value: string } }>({
+      accountAddress: owner,
+      resourceType: `0x1::coin::CoinStore<${coinType}>` as MoveStructId,
+      options: versionOption(ledgerVersion),
+    });
+    return BigInt(store.coin.value);
+  } catch (e) {
+    if (isNotFound(e)) return 0n;
+    throw e;
+  }
+}
+
+/**
+ * Balance and metadata address of a fungible store object from the node,
+ * optionally at a ledger version. Null if the store doesn't exist.
+ */
+export async function readStoreBalance(
+  aptos: Aptos,
+  store: string,
+  ledgerVersion?: bigint,
+): Promise<{ metadata: string; balance: bigint } | null> {
+  try {
+    const data = await aptos.getAccountResource<{
+      balance: string;
+      metadata: { inner: string };
+    }>({
+      accountAddress: store,
+      resourceType: "0x1::fungible_asset::FungibleStore",
+      options: versionOption(ledgerVersion),
+    });
+    return { metadata: data.metadata.inner, balance: BigInt(data.balance) };
+  } catch (e) {
+    if (isNotFound(e)) return null;
+    throw e;
+  }
 }
+
+export { formatAmount } from "./amount.js";
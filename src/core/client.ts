@@ -3,19 +3,41 @@ import {
   AptosConfig,
   Network,
   Account,
-  Ed25519PrivateKey,
-  Ed25519PublicKey,
-  type AccountAddress,
+  AccountAddress,
+  type AccountAuthenticator,
+  type AnyRawTransaction,
+  type PublicKey,
 } from "@aptos-labs/ts-sdk";
-import type { ToolkitConfig } from "../types.js";
+import type {
+  FeePayerConfig,
+  Signer,
+  SubmissionQueueOptions,
+  ToolkitConfig,
+} from "../types.js";
+import { AccountSigner } from "./signer.js";
+import { accountFromPrivateKey, parsePublicKey } from "./keys.js";
+import { SubmissionQueue } from "./submission.js";
+
+/** A configured fee payer, ready to co-sign */
+export interface FeePayer {
+  address: AccountAddress;
+  publicKey?: PublicKey;
+  sign(transaction: AnyRawTransaction): Promise<AccountAuthenticator>;
+}
 
 export class AptosClient {
   readonly aptos: Aptos;
   readonly config: AptosConfig;
   readonly network: Network;
+  /** The local account when configured with `privateKey` */
   readonly account: Account | null;
+  /** Signs as the sender: the local account or the configured `signer` */
+  readonly signer: Signer | null;
   readonly accountAddress: AccountAddress;
-  readonly publicKey: Ed25519PublicKey;
+  readonly publicKey: PublicKey;
+  readonly feePayer: FeePayer | null;
+  private readonly submissionOptions?: SubmissionQueueOptions;
+  private submissionQueue: SubmissionQueue | null = null;
 
   constructor(cfg: ToolkitConfig) {
     this.network = cfg.network;
@@ -25,18 +47,69 @@ export class AptosClient {
     });
     this.aptos = new Aptos(this.config);
 
+    // An explicit address covers rotated auth keys, which no longer derive it
+    const address = cfg.address ? AccountAddress.from(cfg.address) : undefined;
+
     if (cfg.privateKey) {
-      const pk = new Ed25519PrivateKey(cfg.privateKey);
-      this.account = Account.fromPrivateKey({ privateKey: pk });
+      this.account = accountFromPrivateKey(cfg.privateKey, cfg.scheme, address);
+      this.signer = new AccountSigner(this.account);
       this.accountAddress = this.account.accountAddress;
-      this.publicKey = this.account.publicKey as Ed25519PublicKey;
+      this.publicKey = this.account.publicKey;
+    } else if (cfg.signer) {
+      this.account = null;
+      if (address && !address.equals(cfg.signer.accountAddress)) {
+        throw new Error(
+          `address ${cfg.address} does not match the signer's ${cfg.signer.accountAddress.toString()}`,
+        );
+      }
+      this.signer = cfg.signer;
+      this.accountAddress = cfg.signer.accountAddress;
+      this.publicKey = cfg.signer.publicKey;
     } else if (cfg.publicKey) {
       this.account = null;
-      this.publicKey = new Ed25519PublicKey(cfg.publicKey);
-      this.accountAddress = this.publicKey.authKey().derivedAddress();
+      this.signer = null;
+      const publicKey = parsePublicKey(cfg.publicKey, cfg.scheme);
+      this.publicKey = publicKey;
+      this.accountAddress = address ?? publicKey.authKey().derivedAddress();
     } else {
-      throw new Error("Either privateKey or publicKey must be provided");
+      throw new Error("One of privateKey, signer or publicKey must be provided");
     }
+
+    this.feePayer = cfg.feePayer ? this.createFeePayer(cfg.feePayer) : null;
+    this.submissionOptions = cfg.submission;
+  }
+
+  private createFeePayer(cfg: FeePayerConfig): FeePayer {
+    if ("privateKey" in cfg) {
+      const account = accountFromPrivateKey(cfg.privateKey, cfg.scheme);
+      return {
+        address: account.accountAddress,
+        publicKey: account.publicKey,
+        sign: async (transaction) =>
+          this.aptos.transaction.signAsFeePayer({ signer: account, transaction }),
+      };
+    }
+    return {
+      address: AccountAddress.from(cfg.address),
+      ...(cfg.publicKey ? { publicKey: parsePublicKey(cfg.publicKey, cfg.scheme) } : {}),
+      sign: cfg.sign,
+    };
+  }
+
+  /**
+   * Construct a client, and when no `address` is configured, look up the
+   * account the key controls on chain. A key rotated onto an existing
+   * account no longer derives that account's address.
+   */
+  static async create(cfg: ToolkitConfig): Promise<AptosClient> {
+    const client = new AptosClient(cfg);
+    if (cfg.address || cfg.signer) return client;
+    const original = await client.aptos.lookupOriginalAccountAddress({
+      authenticationKey: client.accountAddress,
+    });
+    return original.equals(client.accountAddress)
+      ? client
+      : new AptosClient({ ...cfg, address: original.toString() });
   }
 
   get address(): string {
@@ -44,6 +117,15 @@ export class AptosClient {
   }
 
   get canExecute(): boolean {
-    return this.account !== null;
+    return this.signer !== null;
+  }
+
+  /**
+   * This account's submission queue, which `ComposedResult.execute()` goes
+   * through. Share one client per account so they share sequence numbers.
+   */
+  get submissions(): SubmissionQueue {
+    this.submissionQueue ??= new SubmissionQueue(this, this.submissionOptions);
+    return this.submissionQueue;
   }
 }
@@ -0,0 +1,92 @@
+import {
+  Account,
+  AnyPublicKey,
+  Deserializer,
+  Ed25519PrivateKey,
+  Ed25519PublicKey,
+  Hex,
+  KeylessPublicKey,
+  MultiEd25519PublicKey,
+  MultiKey,
+  Secp256k1PrivateKey,
+  Secp256k1PublicKey,
+  type AccountAddress,
+  type AccountPublicKey,
+  type PublicKey,
+} from "@aptos-labs/ts-sdk";
+import type { KeyScheme } from "../types.js";
+import { errorMessage } from "./util.js";
+
+const SECP256K1_PREFIX = "secp256k1-priv-";
+
+function deserialize<T>(hex: string, read: (d: Deserializer) => T, scheme: KeyScheme): T {
+  try {
+    return read(new Deserializer(Hex.fromHexInput(hex).toUint8Array()));
+  } catch (e) {
+    throw new Error(
+      `Invalid ${scheme} public key: expected BCS-serialized hex (${errorMessage(e)})`,
+    );
+  }
+}
+
+/**
+ * Read a public key as the account's on-chain key for `scheme`. Secp256k1
+ * and keyless keys come back wrapped in `AnyPublicKey`, as single-key
+ * accounts hold them, so `authKey()` and simulation see the right type.
+ */
+export function parsePublicKey(publicKey: string, scheme: KeyScheme = "ed25519"): AccountPublicKey {
+  switch (scheme) {
+    case "ed25519":
+      return new Ed25519PublicKey(publicKey);
+    case "single_key_ed25519":
+      return new AnyPublicKey(new Ed25519PublicKey(publicKey));
+    case "secp256k1":
+      return new AnyPublicKey(new Secp256k1PublicKey(publicKey));
+    case "keyless":
+      return new AnyPublicKey(deserialize(publicKey, KeylessPublicKey.deserialize, scheme));
+    case "multi_key":
+      return deserialize(publicKey, MultiKey.deserialize, scheme);
+    case "multi_ed25519":
+      return deserialize(publicKey, MultiEd25519PublicKey.deserialize, scheme);
+    default:
+      throw new Error(`Unknown key scheme "${scheme as string}"`);
+  }
+}
+
+/**
+ * The account a private key signs for, its scheme inferred from an AIP-80
+ * `secp256k1-priv-` prefix when not given. `address` overrides the derived
+ * address for rotated auth keys. Multi-key and keyless accounts have no
+ * single private key; configure a `signer` for those.
+ */
+export function accountFromPrivateKey(
+  privateKey: string,
+  scheme?: KeyScheme,
+  address?: AccountAddress,
+): Account {
+  const resolved = scheme ?? (privateKey.startsWith(SECP256K1_PREFIX) ? "secp256k1" : "ed25519");
+  switch (resolved) {
+    case "ed25519":
+      return Account.fromPrivateKey({ privateKey: new Ed25519PrivateKey(privateKey), address });
+    case "single_key_ed25519":
+      return Account.fromPrivateKey({
+        privateKey: new Ed25519PrivateKey(privateKey),
+        address,
+        legacy: false,
+      });
+    case "secp256k1":
+      return Account.fromPrivateKey({ privateKey: new Secp256k1PrivateKey(privateKey), address });
+    default:
+      throw new Error(
+        `A ${resolved} account can't be configured with a privateKey; use a signer instead`,
+      );
+  }
+}
+
+/**
+ * The key to simulate with. The SDK can't build a simulation authenticator
+ * for MultiEd25519 keys, so those simulate without one (no signature check).
+ */
+export function simulationPublicKey(publicKey: PublicKey | undefined): PublicKey | undefined {
+  return publicKey instanceof MultiEd25519PublicKey ? undefined : publicKey;
+}
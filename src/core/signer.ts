@@ -0,0 +1,171 @@
+import {
+  AccountAddress,
+  AccountAuthenticator,
+  AccountAuthenticatorEd25519,
+  AccountAuthenticatorSingleKey,
+  Deserializer,
+  Ed25519PublicKey,
+  Hex,
+  MultiAgentTransaction,
+  Secp256k1PublicKey,
+  generateSigningMessageForTransaction,
+  type Account,
+  type AccountPublicKey,
+  type AnyRawTransaction,
+  type PublicKey,
+} from "@aptos-labs/ts-sdk";
+import type { KeyScheme, Signer } from "../types.js";
+import { parsePublicKey } from "./keys.js";
+import { errorMessage } from "./util.js";
+
+// ── Local Account ─────────────────────────────────────────────────
+
+/** A `Signer` backed by an in-memory `Account` (what `privateKey` configures) */
+export class AccountSigner implements Signer {
+  readonly accountAddress: AccountAddress;
+  readonly publicKey: PublicKey;
+
+  constructor(readonly account: Account) {
+    this.accountAddress = account.accountAddress;
+    this.publicKey = account.publicKey;
+  }
+
+  async signTransaction(transaction: AnyRawTransaction): Promise<AccountAuthenticator> {
+    return this.account.signTransactionWithAuthenticator(transaction);
+  }
+}
+
+// ── Air-Gapped ────────────────────────────────────────────────────
+
+export interface AirGappedSignerOptions {
+  address: string;
+  /** Public key hex, for simulation and to check returned signatures */
+  publicKey: string;
+  /** Scheme of `publicKey` (default: ed25519) */
+  scheme?: KeyScheme;
+  /** File to write the signing request to (default: stdout) */
+  requestFile?: string;
+  /** File to read the authenticator from (default: one line on stdin) */
+  responseFile?: string;
+  /** How long to wait for `responseFile` (default: 10 minutes) */
+  timeoutMs?: number;
+  /** How often to check for `responseFile` (default: 1s) */
+  pollIntervalMs?: number;
+}
+
+/** What an offline device needs to sign: the BCS transaction and its signing message */
+export interface SigningRequest {
+  kind: "simple" | "multi_agent";
+  sender: string;
+  /** BCS-serialized `SimpleTransaction` / `MultiAgentTransaction` (hex) */
+  transaction: string;
+  /** Exact bytes to sign (hex) */
+  signingMessage: string;
+}
+
+export function signingRequest(transaction: AnyRawTransaction): SigningRequest {
+  return {
+    kind: transaction instanceof MultiAgentTransaction ? "multi_agent" : "simple",
+    sender: transaction.rawTransaction.sender.toString(),
+    transaction: transaction.bcsToHex().toString(),
+    signingMessage: Hex.fromHexInput(
+      generateSigningMessageForTransaction(transaction),
+    ).toString(),
+  };
+}
+
+/**
+ * Signs on another machine. Each transaction is written as a JSON
+ * `SigningRequest`; the offline device returns the BCS-serialized
+ * `AccountAuthenticator` as hex, through `responseFile` or stdin. Its key
+ * must match `publicKey`; Ed25519 and Secp256k1 signatures are also checked
+ * against the signing message before they are used.
+ */
+export class AirGappedSigner implements Signer {
+  readonly accountAddress: AccountAddress;
+  readonly publicKey: AccountPublicKey;
+
+  constructor(private readonly options: AirGappedSignerOptions) {
+    this.accountAddress = AccountAddress.from(options.address);
+    this.publicKey = parsePublicKey(options.publicKey, options.scheme);
+  }
+
+  async signTransaction(transaction: AnyRawTransaction): Promise<AccountAuthenticator> {
+    const request = signingRequest(transaction);
+    const { requestFile, responseFile } = this.options;
+    // Node-only modules, loaded here so the rest of the toolkit stays browser-safe
+    const fs = await import("node:fs/promises");
+
+    // A response left over from an earlier transaction must not be picked up
+    if (responseFile) await fs.rm(responseFile, { force: true });
+    const body = JSON.stringify(request, null, 2) + "\n";
+    if (requestFile) {
+      await fs.writeFile(requestFile, body);
+    } else {
+      process.stdout.write(body);
+    }
+
+    const hex = responseFile
+      ? await this.waitForFile(responseFile)
+      : await this.readLine();
+    return this.checkAuthenticator(hex, request.signingMessage);
+  }
+
+  private async waitForFile(path: string): Promise<string> {
+    const { readFile } = await import("node:fs/promises");
+    const timeoutMs = this.options.timeoutMs ?? 600_000;
+    const pollIntervalMs = this.options.pollIntervalMs ?? 1000;
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const text = await readFile(path, "utf8").catch(() => "");
+      if (text.trim() !== "") return text.trim();
+      if (Date.now() >= deadline) {
+        throw new Error(`AirGappedSigner: no authenticator in ${path} after ${timeoutMs}ms`);
+      }
+      await new Promise((r) => setTimeout(r, pollIntervalMs));
+    }
+  }
+
+  private async readLine(): Promise<string> {
+    const readline = await import("node:readline/promises");
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+    try {
+      return (await rl.question("Signed authenticator (hex): ")).trim();
+    } finally {
+      rl.close();
+    }
+  }
+
+  private checkAuthenticator(hex: string, signingMessage: string): AccountAuthenticator {
+    let authenticator: AccountAuthenticator;
+    try {
+      authenticator = AccountAuthenticator.deserialize(
+        new Deserializer(Hex.fromHexInput(hex).toUint8Array()),
+      );
+    } catch (e) {
+      throw new Error(
+        `AirGappedSigner: response is not a BCS AccountAuthenticator (${errorMessage(e)})`,
+      );
+    }
+    // Every authenticator but the abstraction one carries its public key
+    if ("public_key" in authenticator) {
+      const key = authenticator.public_key as PublicKey;
+      if (key.bcsToHex().toString() !== this.publicKey.bcsToHex().toString()) {
+        throw new Error("AirGappedSigner: authenticator was signed by a different key");
+      }
+    }
+    const message = Hex.fromHexInput(signingMessage).toUint8Array();
+    const valid =
+      authenticator instanceof AccountAuthenticatorEd25519
+        ? authenticator.public_key.verifySignature({ message, signature: authenticator.signature })
+        : authenticator instanceof AccountAuthenticatorSingleKey &&
+            (authenticator.public_key.publicKey instanceof Ed25519PublicKey ||
+              authenticator.public_key.publicKey instanceof Secp256k1PublicKey)
+          ? authenticator.public_key.verifySignature({ message, signature: authenticator.signature })
+          : true;
+    if (!valid) {
+      throw new Error("AirGappedSigner: signature does not match this transaction");
+    }
+    return authenticator;
+  }
+}
@@ -0,0 +1,259 @@
+import {
+  TransactionResponseType,
+  generateUserTransactionHash,
+  type CommittedTransactionResponse,
+  type InputSubmitTransactionData,
+} from "@aptos-labs/ts-sdk";
+import type {
+  ExecutionResult,
+  SubmissionEvent,
+  SubmissionJob,
+  SubmissionQueueOptions,
+} from "../types.js";
+import type { AptosClient } from "./client.js";
+import { signForSubmission, submitSigned, toExecutionResult } from "./transaction.js";
+import { errorMessage, isNotFound, isRejected } from "./util.js";
+
+const DEFAULT_MAX_RETRIES = 2;
+/** How long past its expiration a pending transaction is still waited for */
+const EXPIRY_GRACE_SECS = 5;
+const SEQUENCE_ERROR = /SEQUENCE_NUMBER/i;
+const EXPIRED_ERROR = /TRANSACTION_EXPIRED/i;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Submits an account's transactions without waiting for each to commit
+ * before the next. Sequence numbers are allocated locally from the on-chain
+ * one; a number whose submission the node rejected is reused by the next
+ * job. After an ambiguous failure (timeout, server error) the job waits on
+ * the transaction's hash instead, since it may still commit.
+ * A sequence mismatch or an expired transaction resyncs from chain and
+ * rebuilds the job at a new number, up to `maxRetries` times.
+ */
+export class SubmissionQueue {
+  private readonly maxRetries: number;
+  private nextSequence: bigint | null = null;
+  private syncing: Promise<bigint> | null = null;
+  /** Numbers assigned to jobs that haven't settled */
+  private readonly held = new Set<bigint>();
+  /** Numbers given up before reaching the mempool, reused first */
+  private released: bigint[] = [];
+  private readonly listeners = new Set<(event: SubmissionEvent) => void>();
+  private nextId = 1;
+
+  constructor(
+    private readonly client: AptosClient,
+    options: SubmissionQueueOptions = {},
+  ) {
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  /** Listen to every job's status changes; returns an unsubscribe function */
+  onStatus(listener: (event: SubmissionEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Jobs holding a sequence number (building, submitted or retrying) */
+  get pending(): number {
+    return this.held.size;
+  }
+
+  /** Forget local sequence state; the next job reads it from chain */
+  resync(): void {
+    this.nextSequence = null;
+    this.released = [];
+  }
+
+  /** Build, sign and submit `job`, resolving once it commits */
+  async submit(job: SubmissionJob): Promise<ExecutionResult> {
+    if (!this.client.signer) {
+      throw new Error(
+        "Cannot execute: no private key or signer provided (simulation-only mode)",
+      );
+    }
+    const signer = this.client.signer;
+    const id = this.nextId++;
+
+    for (let attempt = 1; ; attempt++) {
+      const sequenceNumber = await this.allocate();
+      const emit = (event: Partial<SubmissionEvent> & Pick<SubmissionEvent, "status">) =>
+        this.emit({ id, sequenceNumber, attempt, description: job.description, ...event });
+      const canRetry = attempt <= this.maxRetries;
+
+      let signed: InputSubmitTransactionData;
+      let expiresAt: number;
+      try {
+        const transaction = await job.build(sequenceNumber);
+        expiresAt = Number(transaction.rawTransaction.expiration_timestamp_secs);
+        signed = await signForSubmission(
+          this.client,
+          signer,
+          transaction,
+          job.secondarySigners ?? [],
+        );
+      } catch (e) {
+        // Never sent, so the number is still free
+        this.settle(sequenceNumber, true);
+        emit({ status: "failed", error: errorMessage(e) });
+        throw e;
+      }
+
+      let hash: string;
+      try {
+        if (job.description) {
+          console.log(`  Submitting: ${job.description} (sequence ${sequenceNumber})...`);
+        }
+        ({ hash } = await submitSigned(this.client, signed));
+      } catch (e) {
+        const error = errorMessage(e);
+        if (SEQUENCE_ERROR.test(error) || EXPIRED_ERROR.test(error)) {
+          // Local view of the account is stale
+          this.settle(sequenceNumber, false);
+          this.resync();
+          if (canRetry) {
+            emit({ status: "retrying", error });
+            continue;
+          }
+          emit({ status: "failed", error });
+          throw e;
+        }
+        if (isRejected(e)) {
+          // The node refused it, so the number is still free
+          this.settle(sequenceNumber, true);
+          emit({ status: "failed", error });
+          throw e;
+        }
+        // A timeout or server error may still have reached the mempool: keep
+        // the number and wait on the transaction's own hash
+        hash = generateUserTransactionHash(signed);
+      }
+
+      emit({ status: "submitted", hash });
+      if (job.description) console.log(`  TX hash: ${hash}`);
+
+      const response = await this.waitForCommit(hash, expiresAt);
+      if (!response) {
+        this.settle(sequenceNumber, false);
+        this.resync();
+        emit({ status: "expired", hash });
+        if (canRetry) {
+          emit({ status: "retrying", hash, error: "transaction expired" });
+          continue;
+        }
+        throw new Error(
+          `Transaction ${hash} expired ${attempt} time(s) without committing`,
+        );
+      }
+
+      this.settle(sequenceNumber, false);
+      const result = toExecutionResult(hash, response);
+      emit(
+        result.success
+          ? { status: "committed", hash, result }
+          : { status: "failed", hash, result, error: result.vmStatus },
+      );
+      return result;
+    }
+  }
+
+  // ── Sequence Numbers ────────────────────────────────────────────
+
+  private async allocate(): Promise<bigint> {
+    if (this.nextSequence === null) {
+      // Jobs arriving together share one fetch
+      this.syncing ??= this.fetchSequence().finally(() => {
+        this.syncing = null;
+      });
+      const onChain = await this.syncing;
+      if (this.nextSequence === null) this.reseed(onChain);
+    }
+
+    let next = this.released.shift();
+    if (next === undefined) {
+      next = this.nextSequence as bigint;
+      this.nextSequence = next + 1n;
+    }
+    this.held.add(next);
+    return next;
+  }
+
+  /**
+   * Restart numbering from the on-chain sequence number after a resync.
+   * Jobs still in flight keep their numbers: new ones continue past the
+   * highest of them, and free numbers below it are handed out first.
+   */
+  private reseed(onChain: bigint): void {
+    let top = onChain - 1n;
+    for (const seq of this.held) if (seq > top) top = seq;
+    this.released = [];
+    for (let seq = onChain; seq < top; seq++) {
+      if (!this.held.has(seq)) this.released.push(seq);
+    }
+    this.nextSequence = top + 1n;
+  }
+
+  private settle(sequenceNumber: bigint, reusable: boolean): void {
+    this.held.delete(sequenceNumber);
+    if (reusable && this.nextSequence !== null && sequenceNumber < this.nextSequence) {
+      this.released.push(sequenceNumber);
+      this.released.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    }
+  }
+
+  private async fetchSequence(): Promise<bigint> {
+    try {
+      const info = await this.client.aptos.getAccountInfo({
+        accountAddress: this.client.accountAddress,
+      });
+      return BigInt(info.sequence_number);
+    } catch (e) {
+      // An account that doesn't exist yet starts at 0
+      if (isNotFound(e)) return 0n;
+      throw e;
+    }
+  }
+
+  // ── Confirmation ────────────────────────────────────────────────
+
+  /**
+   * Wait until `hash` commits; null once it is past its expiration and the
+   * node doesn't have it committed, since it can no longer be included.
+   */
+  private async waitForCommit(
+    hash: string,
+    expiresAt: number,
+  ): Promise<CommittedTransactionResponse | null> {
+    for (;;) {
+      try {
+        return await this.client.aptos.waitForTransaction({
+          transactionHash: hash,
+          options: { checkSuccess: false },
+        });
+      } catch {
+        if (Date.now() / 1000 < expiresAt + EXPIRY_GRACE_SECS) {
+          await sleep(1000);
+          continue;
+        }
+        try {
+          const tx = await this.client.aptos.getTransactionByHash({ transactionHash: hash });
+          if (tx.type !== TransactionResponseType.Pending) return tx;
+        } catch {
+          // Unknown to the node
+        }
+        return null;
+      }
+    }
+  }
+
+  private emit(event: SubmissionEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // A failing listener must not break submission
+      }
+    }
+  }
+}
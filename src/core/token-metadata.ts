@@ -0,0 +1,179 @@
+import type { Aptos, MoveStructId } from "@aptos-labs/ts-sdk";
+import type { SimulationResult, TokenConfig, TokenInput } from "../types.js";
+import { tokenComponents } from "./balance.js";
+import { addressKey, errorMessage } from "./util.js";
+
+// ── Cache (per-process) ───────────────────────────────────────────
+
+const tokenCache = new Map<string, Promise<TokenConfig>>();
+
+function tokenKey(id: string): string {
+  return id.includes("::") ? id.replace(/\s+/g, "").toLowerCase() : addressKey(id);
+}
+
+/** Per node, since the same address can be a different token on another network */
+function cacheKey(aptos: Aptos, id: string): string {
+  return `${aptos.config.fullnode ?? aptos.config.network}|${tokenKey(id)}`;
+}
+
+/** Drop cached token metadata */
+export function clearTokenCache(): void {
+  tokenCache.clear();
+}
+
+// ── On-Chain Reads ────────────────────────────────────────────────
+
+interface FAMetadata {
+  name: string;
+  symbol: string;
+  decimals: number;
+  icon_uri: string;
+}
+
+interface CoinInfo {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+async function readFAMetadata(aptos: Aptos, metadata: string): Promise<TokenConfig> {
+  const info = await aptos.getAccountResource<FAMetadata>({
+    accountAddress: metadata,
+    resourceType: "0x1::fungible_asset::Metadata",
+  });
+  return {
+    symbol: info.symbol,
+    metadata,
+    decimals: Number(info.decimals),
+    name: info.name,
+    ...(info.icon_uri ? { iconUri: info.icon_uri } : {}),
+  };
+}
+
+/** `CoinInfo<T>` lives at the address that published `T` */
+async function readCoinInfo(aptos: Aptos, coinType: string): Promise<TokenConfig> {
+  const publisher = coinType.split("::")[0];
+  const info = await aptos.getAccountResource<CoinInfo>({
+    accountAddress: publisher,
+    resourceType: `0x1::coin::CoinInfo<${coinType}>` as MoveStructId,
+  });
+
+  // Paired FA (coin → FA migration), so both halves are summed
+  let paired: string | undefined;
+  try {
+    const [option] = await aptos.view<[{ vec: Array<{ inner: string }> }]>({
+      payload: {
+        function: "0x1::coin::paired_metadata",
+        typeArguments: [coinType],
+        functionArguments: [],
+      },
+    });
+    paired = option.vec[0]?.inner;
+  } catch {
+    // no paired FA (or a node without the view)
+  }
+
+  return {
+    symbol: info.symbol,
+    ...(paired ? { metadata: paired } : {}),
+    coinType,
+    decimals: Number(info.decimals),
+    name: info.name,
+  };
+}
+
+// ── Resolution ────────────────────────────────────────────────────
+
+/**
+ * Token config for an FA metadata address (from `0x1::fungible_asset::Metadata`)
+ * or a coin type (from `0x1::coin::CoinInfo<T>`, plus its paired FA if any).
+ * Cached per process and node; a failed read is not cached.
+ */
+export function resolveToken(aptos: Aptos, id: string): Promise<TokenConfig> {
+  const key = cacheKey(aptos, id);
+  let pending = tokenCache.get(key);
+  if (!pending) {
+    pending = (id.includes("::") ? readCoinInfo(aptos, id) : readFAMetadata(aptos, id)).catch(
+      (e: unknown) => {
+        tokenCache.delete(key);
+        throw new Error(
+          `Could not resolve token "${id}": ${errorMessage(e)}`,
+        );
+      },
+    );
+    tokenCache.set(key, pending);
+  }
+  return pending;
+}
+
+/** A mismatch between a hand-written `TokenConfig` and on-chain metadata */
+export interface TokenConfigMismatch {
+  token: TokenConfig;
+  field: "decimals";
+  configured: number;
+  onChain: number;
+}
+
+/**
+ * Resolve ids to configs and check explicit configs against chain.
+ * Explicit configs keep their symbol; wrong `decimals` are replaced by the
+ * on-chain value and reported. An explicit config whose metadata can't be
+ * read is kept as-is.
+ */
+export async function resolveTokens(
+  aptos: Aptos,
+  tokens: TokenInput[],
+): Promise<{ tokens: TokenConfig[]; mismatches: TokenConfigMismatch[] }> {
+  const mismatches: TokenConfigMismatch[] = [];
+  const resolved = await Promise.all(
+    tokens.map(async (t) => {
+      if (typeof t === "string") return resolveToken(aptos, t);
+
+      const id = t.metadata ?? t.coinType;
+      if (!id) return t;
+      const onChain = await resolveToken(aptos, id).catch(() => null);
+      if (!onChain) return t;
+
+      const iconUri = t.iconUri ?? onChain.iconUri;
+      const labelled = { ...t, name: t.name ?? onChain.name, ...(iconUri ? { iconUri } : {}) };
+      if (onChain.decimals === t.decimals) return labelled;
+
+      mismatches.push({
+        token: t,
+        field: "decimals",
+        configured: t.decimals,
+        onChain: onChain.decimals,
+      });
+      return { ...labelled, decimals: onChain.decimals };
+    }),
+  );
+  return { tokens: resolved, mismatches };
+}
+
+/**
+ * Tokens whose stores the simulation wrote (`balanceChanges`: FA stores and
+ * coin stores) but that aren't among `known`, resolved from chain. Ids that
+ * can't be resolved are skipped; a coin and its paired FA resolve to one token.
+ */
+export async function discoverTokens(
+  aptos: Aptos,
+  simulation: SimulationResult,
+  known: TokenConfig[],
+): Promise<TokenConfig[]> {
+  const seen = new Set(known.flatMap(tokenComponents).map(tokenKey));
+  // Coin types first, so a coin claims its paired FA rather than the reverse
+  const ids = [...new Set(simulation.balanceChanges.map((c) => c.tokenMetadata))]
+    .filter((id) => !seen.has(tokenKey(id)))
+    .sort((a, b) => Number(b.includes("::")) - Number(a.includes("::")));
+
+  const resolved = await Promise.all(ids.map((id) => resolveToken(aptos, id).catch(() => null)));
+  const discovered: TokenConfig[] = [];
+  for (const token of resolved) {
+    if (!token) continue;
+    const keys = tokenComponents(token).map(tokenKey);
+    if (keys.some((k) => seen.has(k))) continue;
+    keys.forEach((k) => seen.add(k));
+    discovered.push(token);
+  }
+  return discovered;
+}
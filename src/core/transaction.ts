@@ -1,11 +1,25 @@
-import type { AnyRawTransaction } from "@aptos-labs/ts-sdk";
+import {
+  DEFAULT_TXN_EXP_SEC_FROM_NOW,
+  MultiAgentTransaction,
+  RawTransaction,
+  SimpleTransaction,
+} from "@aptos-labs/ts-sdk";
+import type {
+  AnyRawTransaction,
+  CommittedTransactionResponse,
+  InputSubmitTransactionData,
+  PendingTransactionResponse,
+} from "@aptos-labs/ts-sdk";
 import type {
   EntryFunctionPayload,
   ExecutionResult,
+  Signer,
+  SignTransactionFn,
   SimulationResult,
 } from "../types.js";
 import { parseSimulationResult } from "../simulation/simulate.js";
 import type { AptosClient } from "./client.js";
+import { simulationPublicKey } from "./keys.js";
 
 export async function buildTransaction(
   client: AptosClient,
@@ -23,46 +37,127 @@ export async function simulateTransaction(
   tokenRegistry?: Map<string, string>,
 ): Promise<SimulationResult> {
   const [rawResult] = await client.aptos.transaction.simulate.simple({
-    signerPublicKey: client.publicKey,
+    signerPublicKey: simulationPublicKey(client.publicKey),
     transaction,
   });
   return parseSimulationResult(rawResult, tokenRegistry);
 }
 
-export async function executeTransaction(
+/**
+ * Sign as sender through the client's `Signer` and collect any co-signatures:
+ * each secondary signer's for a multi-agent transaction, then the configured
+ * fee payer's. The fee payer address is filled in before any signature, since
+ * all of them sign over it.
+ */
+export async function signForSubmission(
   client: AptosClient,
+  sender: Signer,
   transaction: AnyRawTransaction,
-  description?: string,
-): Promise<ExecutionResult> {
-  if (!client.canExecute || !client.account) {
+  secondarySigners: SignTransactionFn[],
+): Promise<InputSubmitTransactionData> {
+  if (transaction.feePayerAddress && !client.feePayer) {
     throw new Error(
-      "Cannot execute: no private key provided (simulation-only mode)",
+      "Cannot execute: transaction was built withFeePayer but no feePayer is configured",
     );
   }
+  const expected = transaction.secondarySignerAddresses?.length ?? 0;
+  if (secondarySigners.length !== expected) {
+    throw new Error(
+      `Cannot execute: transaction has ${expected} secondary signer(s) but ${secondarySigners.length} signing function(s) were given`,
+    );
+  }
+  if (client.feePayer && transaction.feePayerAddress) {
+    transaction.feePayerAddress = client.feePayer.address;
+  }
+  const senderAuthenticator = await sender.signTransaction(transaction);
+  const additionalSignersAuthenticators = [];
+  for (const sign of secondarySigners) {
+    additionalSignersAuthenticators.push(await sign(transaction));
+  }
+  const feePayerAuthenticator =
+    client.feePayer && transaction.feePayerAddress
+      ? await client.feePayer.sign(transaction)
+      : undefined;
+  return transaction instanceof MultiAgentTransaction
+    ? { transaction, senderAuthenticator, additionalSignersAuthenticators, feePayerAuthenticator }
+    : { transaction, senderAuthenticator, feePayerAuthenticator };
+}
 
-  if (description) console.log(`  Submitting: ${description}...`);
-
-  const pending = await client.aptos.signAndSubmitTransaction({
-    signer: client.account,
-    transaction,
-  });
+/** Submit a transaction signed by `signForSubmission` */
+export async function submitSigned(
+  client: AptosClient,
+  signed: InputSubmitTransactionData,
+): Promise<PendingTransactionResponse> {
+  return signed.transaction instanceof MultiAgentTransaction
+    ? client.aptos.transaction.submit.multiAgent({
+        ...signed,
+        transaction: signed.transaction,
+        additionalSignersAuthenticators: signed.additionalSignersAuthenticators ?? [],
+      })
+    : client.aptos.transaction.submit.simple(signed);
+}
 
-  if (description) {
-    console.log(`  TX hash: ${pending.hash}`);
-    console.log(`  Waiting for confirmation...`);
-  }
+/**
+ * `transaction` at another sequence number with a fresh expiration window;
+ * payload and gas unchanged
+ */
+function resequence(
+  transaction: AnyRawTransaction,
+  sequenceNumber: bigint,
+): AnyRawTransaction {
+  const raw = transaction.rawTransaction;
+  const rawTransaction = new RawTransaction(
+    raw.sender,
+    sequenceNumber,
+    raw.payload,
+    raw.max_gas_amount,
+    raw.gas_unit_price,
+    BigInt(Math.floor(Date.now() / 1000) + DEFAULT_TXN_EXP_SEC_FROM_NOW),
+    raw.chain_id,
+  );
+  return transaction instanceof MultiAgentTransaction
+    ? new MultiAgentTransaction(
+        rawTransaction,
+        transaction.secondarySignerAddresses,
+        transaction.feePayerAddress,
+      )
+    : new SimpleTransaction(rawTransaction, transaction.feePayerAddress);
+}
 
-  const result = await client.aptos.waitForTransaction({
-    transactionHash: pending.hash,
+/**
+ * Submit a built transaction through the client's submission queue. It goes
+ * out as built when the queue assigns its sequence number on the first
+ * attempt; otherwise, and on every retry, it is re-sequenced with a fresh
+ * expiration so a retry after an expiry can still commit.
+ */
+export async function executeTransaction(
+  client: AptosClient,
+  transaction: AnyRawTransaction,
+  description?: string,
+  secondarySigners: SignTransactionFn[] = [],
+): Promise<ExecutionResult> {
+  let attempts = 0;
+  return client.submissions.submit({
+    description,
+    secondarySigners,
+    build: async (sequenceNumber) =>
+      attempts++ === 0 && sequenceNumber === transaction.rawTransaction.sequence_number
+        ? transaction
+        : resequence(transaction, sequenceNumber),
   });
+}
 
-  const r = result as any;
+export function toExecutionResult(
+  hash: string,
+  response: CommittedTransactionResponse,
+): ExecutionResult {
+  const r = response as any;
   return {
-    hash: pending.hash,
+    hash,
     success: r.success,
     vmStatus: r.vm_status,
     gasUsed: parseInt(r.gas_used ?? "0"),
-    response: result,
+    response,
   };
 }
 
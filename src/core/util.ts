@@ -0,0 +1,39 @@
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+
+// ── Addresses ─────────────────────────────────────────────────────
+
+/** Long form of an address written short or long; null if it isn't one */
+export function normalizeAddress(address: string): string | null {
+  try {
+    return AccountAddress.from(address, { maxMissingChars: 63 }).toStringLong();
+  } catch {
+    return null;
+  }
+}
+
+/** `normalizeAddress` for map keys and comparisons: anything else is lowercased */
+export function addressKey(address: string): string {
+  return normalizeAddress(address) ?? address.toLowerCase();
+}
+
+/** Whether two addresses, in any form, are the same account */
+export function sameAddress(a: string, b: string): boolean {
+  return addressKey(a) === addressKey(b);
+}
+
+// ── Errors ────────────────────────────────────────────────────────
+
+export function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/** Whether a node request failed because the resource or account doesn't exist */
+export function isNotFound(e: unknown): boolean {
+  return (e as { status?: number })?.status === 404;
+}
+
+/** Whether the node definitively refused a request (a 4xx response) */
+export function isRejected(e: unknown): boolean {
+  const status = (e as { status?: number })?.status;
+  return status !== undefined && status >= 400 && status < 500;
+}
@@ -0,0 +1,68 @@
+import type { ParsedEvent, SimulationResult } from "../types.js";
+import type { StepAttribution } from "./types.js";
+
+// ── Event Matching ────────────────────────────────────────────────
+
+function sameEvent(a: ParsedEvent, b: ParsedEvent): boolean {
+  return a.type === b.type && JSON.stringify(a.data) === JSON.stringify(b.data);
+}
+
+/** Number of leading events shared by a prefix simulation and the full run */
+function sharedEventCount(prefix: ParsedEvent[], full: ParsedEvent[]): number {
+  let n = 0;
+  while (n < prefix.length && n < full.length && sameEvent(prefix[n], full[n])) {
+    n++;
+  }
+  return n;
+}
+
+// ── Attribution ───────────────────────────────────────────────────
+
+/**
+ * Attribute gas and events to steps from prefix simulations.
+ * `prefixes[k]` is the simulation of steps `0..k` (the last one is the full
+ * plan). Step k's gas is the gas delta between prefix k-1 and prefix k; its
+ * events are the full run's events that first appear in prefix k.
+ * Simulation stops at the first failing prefix, so `prefixes` may be shorter
+ * than `labels` — that step is "failed" and the rest "not_reached".
+ */
+export function attributeSteps(
+  labels: string[],
+  prefixes: SimulationResult[],
+  full: SimulationResult,
+): StepAttribution[] {
+  const attribution: StepAttribution[] = [];
+  let prevGas = 0;
+  let prevEvents = 0;
+
+  for (let k = 0; k < labels.length; k++) {
+    const prefix = prefixes[k];
+    if (!prefix) {
+      attribution.push({ label: labels[k], status: "not_reached", gasUsed: 0, events: [] });
+      continue;
+    }
+
+    if (!prefix.success) {
+      attribution.push({
+        label: labels[k],
+        status: "failed",
+        gasUsed: Math.max(0, prefix.gasUsed - prevGas),
+        events: [],
+        vmStatus: prefix.vmStatus,
+      });
+      continue;
+    }
+
+    const shared = Math.max(prevEvents, sharedEventCount(prefix.events, full.events));
+    attribution.push({
+      label: labels[k],
+      status: "ok",
+      gasUsed: Math.max(0, prefix.gasUsed - prevGas),
+      events: full.events.slice(prevEvents, shared),
+    });
+    prevGas = prefix.gasUsed;
+    prevEvents = shared;
+  }
+
+  return attribution;
+}
@@ -1,46 +1,108 @@
 import {
+  BuildScriptComposerMultiAgentTransaction,
   BuildScriptComposerTransaction,
   CallArgument,
+  type AptosScriptComposer,
 } from "@aptos-labs/script-composer-sdk";
-import type { AnyRawTransaction } from "@aptos-labs/ts-sdk";
+import { AccountAddress, MultiAgentTransaction } from "@aptos-labs/ts-sdk";
+import type {
+  AnyRawTransaction,
+  EntryFunctionArgumentTypes,
+  SimpleEntryFunctionArgumentTypes,
+} from "@aptos-labs/ts-sdk";
 import type { AptosClient } from "../core/client.js";
-import type { TokenConfig } from "../types.js";
-import { parseSimulationResult } from "../simulation/simulate.js";
+import type { SignTransactionFn, SimulationResult, TokenInput } from "../types.js";
+import {
+  parseSimulationResult,
+  preStateLedgerVersion,
+  resolveTokenSymbol,
+} from "../simulation/simulate.js";
+import { fetchWriteSetPreState } from "../simulation/write-set.js";
 import {
-  captureSnapshot,
-  extractBalancesFromSimulation,
+  capturePartySnapshot,
+  extractPartyBalancesFromSimulation,
+  computeDeltas,
   computeDiff,
 } from "../simulation/flow-tracker.js";
-import { diagnoseVmStatus } from "../simulation/errors.js";
-import { executeTransaction } from "../core/transaction.js";
+import {
+  decodeAbort,
+  diagnoseVmStatus,
+  parseAbortLocation,
+} from "../simulation/errors.js";
+import type { DiagnosedError, TrackedParty } from "../simulation/types.js";
+import { parsePublicKey, simulationPublicKey } from "../core/keys.js";
+import { tokenComponents } from "../core/balance.js";
+import { addressKey, sameAddress } from "../core/util.js";
+import { discoverTokens, resolveTokens } from "../core/token-metadata.js";
 import { formatComposedSummary } from "./report.js";
+import {
+  encodeLiteral,
+  deserializeLiteral,
+  serializeLiteral,
+} from "./literals.js";
+import { hashPlan } from "./plan-hash.js";
+import { validatePlanJSON, formatPlanSchemaErrors } from "./schema.js";
 import {
   validateSteps,
+  findUnconsumedReturns,
   type ValidationWarning,
   type StepValidation,
 } from "./validate.js";
+import { arg } from "./types.js";
 import type {
+  BuildOptions,
+  SimulateOptions,
   ComposerStep,
   StepArg,
   RefMode,
   ComposedResult,
   StepArgJSON,
   DynamicPlanJSON,
+  DynamicPlanTemplateJSON,
+  LiteralValue,
+  TemplateParamValue,
+  SubPlan,
+  SubPlanArg,
+  SubPlanJSON,
+  TrackingOptions,
+  Guard,
+  SecondarySigner,
 } from "./types.js";
+import { BUILTIN_SUB_PLANS, expandSubPlan } from "./subplan.js";
+import { resolveTemplateParams } from "./template.js";
+import { typesMatch } from "./move-types.js";
+import { attributeSteps } from "./attribution.js";
+import { compareResults, DriftError } from "./drift.js";
+import {
+  GUARD_LABEL_PREFIX,
+  checkGuard,
+  evaluateGuards,
+  guardErrors,
+  guardTokenIds,
+  onChainGuardSteps,
+  serializeGuard,
+} from "./guards.js";
 
 // ── Argument Resolution ───────────────────────────────────────────
 
 function resolveArg(
   a: StepArg,
-  signer: CallArgument,
+  signers: CallArgument[],
   results: Map<string, CallArgument[]>,
-): CallArgument | string | number | bigint | boolean {
+): CallArgument | SimpleEntryFunctionArgumentTypes | EntryFunctionArgumentTypes {
   switch (a.kind) {
-    case "signer":
+    case "signer": {
+      const signer = signers[a.index ?? 0];
+      if (!signer) {
+        throw new Error(
+          `arg.signer(${a.index}) but the transaction has ${signers.length} signer(s)`,
+        );
+      }
       return signer;
+    }
 
     case "literal":
-      return a.value;
+      return encodeLiteral(a.value);
 
     case "ref": {
       const stepResults = results.get(a.step);
@@ -74,15 +136,28 @@ function applyRefMode(callArg: CallArgument, mode: RefMode): CallArgument {
 
 // ── JSON Deserialization ──────────────────────────────────────────
 
-function deserializeArg(json: StepArgJSON): StepArg {
+function deserializeArg(
+  json: StepArgJSON,
+  params?: Map<string, LiteralValue>,
+): StepArg {
   switch (json.kind) {
     case "signer":
-      return { kind: "signer" };
+      return json.index ? { kind: "signer", index: json.index } : { kind: "signer" };
+
+    case "literal":
+      return { kind: "literal", value: deserializeLiteral(json.value) };
+
+    case "input":
+      throw new Error(
+        `Sub-plan input "${json.name}" used outside a sub-plan definition`,
+      );
 
-    case "literal": {
-      let value: string | number | bigint | boolean = json.value;
-      if (typeof value === "string" && /^\d+n$/.test(value)) {
-        value = BigInt(value.slice(0, -1));
+    case "param": {
+      const value = params?.get(json.name);
+      if (value === undefined) {
+        throw new Error(
+          `Unresolved plan parameter "${json.name}" — load templated plans with DynamicComposer.fromTemplate()`,
+        );
       }
       return { kind: "literal", value };
     }
@@ -97,46 +172,356 @@ function deserializeArg(json: StepArgJSON): StepArg {
   }
 }
 
+function deserializeSubPlan(
+  json: SubPlanJSON,
+  params?: Map<string, LiteralValue>,
+): SubPlan {
+  return {
+    inputs: json.inputs ?? [],
+    steps: json.steps.map((step) => ({
+      label: step.label,
+      function: step.function,
+      typeArguments: step.typeArguments,
+      args: step.args.map(
+        (a): SubPlanArg => (a.kind === "input" ? a : deserializeArg(a, params)),
+      ),
+    })),
+    outputs: json.outputs ?? [],
+  };
+}
+
+/** Plans are often agent-generated: report every schema problem up front */
+function assertPlanJSON(json: unknown): void {
+  const check = validatePlanJSON(json);
+  if (!check.valid) {
+    throw new Error(`Invalid plan JSON:\n  ${formatPlanSchemaErrors(check.errors)}`);
+  }
+}
+
+// ── JSON Serialization ────────────────────────────────────────────
+
+function serializeArg(a: StepArg): StepArgJSON {
+  switch (a.kind) {
+    case "signer":
+      return a.index ? { kind: "signer", index: a.index } : { kind: "signer" };
+
+    case "literal":
+      return { kind: "literal", value: serializeLiteral(a.value) };
+
+    case "ref":
+      return {
+        kind: "ref",
+        step: a.step,
+        returnIndex: a.returnIndex,
+        mode: a.mode,
+      };
+  }
+}
+
+// ── Auto-Sweep ────────────────────────────────────────────────────
+
+const FUNGIBLE_ASSET_TYPE = "0x1::fungible_asset::FungibleAsset";
+
+/** Deposit steps for every unconsumed `FungibleAsset` return */
+function sweepSteps(
+  steps: Array<{ label: string; step: ComposerStep }>,
+  validations: StepValidation[],
+  recipient: string,
+): Array<{ label: string; step: ComposerStep }> {
+  const taken = new Set(steps.map((s) => s.label));
+  const sweeps: Array<{ label: string; step: ComposerStep }> = [];
+
+  for (const u of findUnconsumedReturns(steps, validations)) {
+    if (typesMatch(u.type, FUNGIBLE_ASSET_TYPE) !== true) continue;
+
+    let label = `sweep.${u.stepLabel}[${u.returnIndex}]`;
+    for (let n = 2; taken.has(label); n++) {
+      label = `sweep.${u.stepLabel}[${u.returnIndex}]#${n}`;
+    }
+    taken.add(label);
+
+    sweeps.push({
+      label,
+      step: {
+        function: "0x1::primary_fungible_store::deposit",
+        args: [arg.address(recipient), arg.ref(u.stepLabel, u.returnIndex)],
+      },
+    });
+  }
+  return sweeps;
+}
+
 // ── DynamicComposer ───────────────────────────────────────────────
 
 export class DynamicComposer {
   private client: AptosClient;
   private steps: Array<{ label: string; step: ComposerStep }> = [];
-  private tokens: TokenConfig[] = [];
+  private tokens: TokenInput[] = [];
+  private tracking: TrackingOptions = {};
+  private guards: Guard[] = [];
+  private signers: SecondarySigner[] = [];
   private lastWarnings: ValidationWarning[] = [];
+  /** Steps of the last build, including auto-added sweep and guard steps */
+  private lastBuiltSteps: Array<{ label: string; step: ComposerStep }> = [];
+  private lastSweptSteps: string[] = [];
+  /** Sub-plan label → declared outputs (namespaced step + return index) */
+  private subPlanOutputs = new Map<
+    string,
+    Array<{ step: string; returnIndex: number }>
+  >();
 
   constructor(client: AptosClient) {
     this.client = client;
   }
 
   addStep(label: string, step: ComposerStep): this {
-    if (this.steps.some((s) => s.label === label)) {
-      throw new Error(`Duplicate step label: "${label}"`);
+    this.checkLabel(label);
+    this.steps.push({
+      label,
+      step: { ...step, args: step.args.map((a) => this.resolveSubPlanRef(a)) },
+    });
+    return this;
+  }
+
+  /**
+   * Expand a sub-plan (see `BUILTIN_SUB_PLANS`) as steps labelled
+   * `<label>.<innerLabel>`. Later steps reach its declared outputs with
+   * `arg.ref(label, outputIndex)`.
+   */
+  addSubPlan(
+    label: string,
+    plan: SubPlan,
+    inputs: Record<string, StepArg> = {},
+  ): this {
+    this.checkLabel(label);
+
+    const expanded = expandSubPlan(label, plan, inputs);
+    for (const { label: stepLabel, step } of expanded.steps) {
+      this.addStep(stepLabel, step);
     }
-    this.steps.push({ label, step });
+    this.subPlanOutputs.set(label, expanded.outputs);
     return this;
   }
 
-  trackTokens(tokens: TokenConfig[]): this {
+  /** Reject a label already in use or in the on-chain guard steps' namespace */
+  private checkLabel(label: string): void {
+    if (label.startsWith(GUARD_LABEL_PREFIX)) {
+      throw new Error(
+        `Step label "${label}" is reserved: "${GUARD_LABEL_PREFIX}" labels name on-chain guard steps`,
+      );
+    }
+    if (
+      this.steps.some((s) => s.label === label) ||
+      this.subPlanOutputs.has(label)
+    ) {
+      throw new Error(`Duplicate step label: "${label}"`);
+    }
+  }
+
+  /** Rewrite `arg.ref(subPlanLabel, i)` to the sub-plan's i-th declared output */
+  private resolveSubPlanRef(a: StepArg): StepArg {
+    if (a.kind !== "ref") return a;
+    const outputs = this.subPlanOutputs.get(a.step);
+    if (!outputs) return a;
+    const output = outputs[a.returnIndex];
+    if (!output) {
+      throw new Error(
+        `Sub-plan "${a.step}" declares ${outputs.length} output(s), but index ${a.returnIndex} was requested`,
+      );
+    }
+    return { ...a, step: output.step, returnIndex: output.returnIndex };
+  }
+
+  /**
+   * Track balance changes for these tokens — full configs, or bare metadata
+   * addresses / coin types resolved from chain at simulation time. The
+   * sender is always tracked; `tracking` adds other owners and explicit store
+   * objects, each reported in `balanceDiff.parties`.
+   */
+  trackTokens(tokens: TokenInput[], tracking: TrackingOptions = {}): this {
+    for (const t of tokens) {
+      if (typeof t !== "string") tokenComponents(t); // needs a metadata address or coin type
+      else if (t.trim() === "") throw new Error("trackTokens: empty token id");
+    }
+    for (const address of [
+      ...(tracking.owners ?? []),
+      ...(tracking.stores ?? []).map((s) => s.address),
+    ]) {
+      if (!AccountAddress.isValid({ input: address, strict: false }).valid) {
+        throw new Error(`trackTokens: "${address}" is not a valid address`);
+      }
+    }
     this.tokens = tokens;
+    this.tracking = tracking;
+    return this;
+  }
+
+  /**
+   * Add a post-condition checked against every simulation. A failed guard
+   * makes the result unsuccessful and `execute()` refuse to submit. Tokens
+   * given by id and owners other than the sender are tracked automatically.
+   */
+  addGuard(guard: Guard): this {
+    checkGuard(guard, this.client.address);
+    this.guards.push(guard);
     return this;
   }
 
+  /**
+   * Add a secondary signer, making this a multi-agent transaction. The
+   * first one added is `arg.signer(1)`, the next `arg.signer(2)`, and so on.
+   * Adding a declared address again (e.g. after `fromJSON`) attaches its
+   * key, account or callback without changing its index.
+   */
+  addSigner(signer: string | SecondarySigner): this {
+    const s = typeof signer === "string" ? { address: signer } : signer;
+    if (!AccountAddress.isValid({ input: s.address, strict: false }).valid) {
+      throw new Error(`addSigner: "${s.address}" is not a valid address`);
+    }
+    if (sameAddress(s.address, this.client.address)) {
+      throw new Error(`addSigner: ${s.address} is the sender`);
+    }
+    const i = this.signers.findIndex((x) => sameAddress(x.address, s.address));
+    if (i >= 0) {
+      this.signers[i] = { ...this.signers[i], ...s, address: this.signers[i].address };
+    } else {
+      this.signers.push(s);
+    }
+    return this;
+  }
+
+  /** Sender first, then extra and guarded owners (deduplicated), then stores */
+  private trackedParties(): TrackedParty[] {
+    const parties: TrackedParty[] = [
+      { address: this.client.address, kind: "owner", label: "sender" },
+    ];
+    const seen = new Set([addressKey(this.client.address)]);
+    const guardOwners = this.guards.flatMap((g) =>
+      (g.kind === "min_delta" || g.kind === "max_delta") && g.owner ? [g.owner] : [],
+    );
+    for (const address of [...(this.tracking.owners ?? []), ...guardOwners]) {
+      const key = addressKey(address);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      parties.push({ address, kind: "owner" });
+    }
+    for (const store of this.tracking.stores ?? []) {
+      parties.push({ address: store.address, kind: "store", label: store.label });
+    }
+    return parties;
+  }
+
+  /**
+   * Canonical JSON form of this plan, loadable with `DynamicComposer.fromJSON`.
+   * Sub-plans appear expanded, as their namespaced `<label>.<inner>` steps.
+   */
+  toJSON(): DynamicPlanJSON {
+    return this.planJSON(this.steps);
+  }
+
+  private planJSON(
+    steps: Array<{ label: string; step: ComposerStep }>,
+  ): DynamicPlanJSON {
+    return {
+      ...(this.tokens.length > 0
+        ? { tokens: this.tokens.map((t) => (typeof t === "string" ? t : { ...t })) }
+        : {}),
+      ...(this.tokens.length > 0 &&
+      (this.tracking.owners?.length || this.tracking.stores?.length)
+        ? {
+            tracking: {
+              ...(this.tracking.owners?.length
+                ? { owners: [...this.tracking.owners] }
+                : {}),
+              ...(this.tracking.stores?.length
+                ? { stores: this.tracking.stores.map((st) => ({ ...st })) }
+                : {}),
+            },
+          }
+        : {}),
+      ...(this.signers.length > 0
+        ? { signers: this.signers.map((x) => x.address) }
+        : {}),
+      ...(this.guards.length > 0 ? { guards: this.guards.map(serializeGuard) } : {}),
+      steps: steps.map(({ label, step }) => ({
+        label,
+        function: step.function,
+        ...(step.typeArguments && step.typeArguments.length > 0
+          ? { typeArguments: [...step.typeArguments] }
+          : {}),
+        args: step.args.map(serializeArg),
+      })),
+    };
+  }
+
+  /** Deterministic content hash of `toJSON()` (see `hashPlan`) */
+  planHash(): string {
+    return hashPlan(this.toJSON());
+  }
+
   async validate(): Promise<{
     validations: StepValidation[];
     warnings: ValidationWarning[];
   }> {
-    return validateSteps(this.client.aptos, this.steps);
+    return this.validateSteps(this.steps);
+  }
+
+  /** One signing function per secondary signer, in `arg.signer(n)` order */
+  private signingFunctions(): SignTransactionFn[] {
+    return this.signers.map((signer, i) => {
+      if (signer.account) {
+        const account = signer.account;
+        return async (transaction) =>
+          this.client.aptos.transaction.sign({ signer: account, transaction });
+      }
+      if (signer.sign) return signer.sign;
+      throw new Error(
+        `Cannot execute: signer ${i + 1} (${signer.address}) has no account or sign callback`,
+      );
+    });
   }
 
-  async build(options?: { withFeePayer?: boolean }): Promise<AnyRawTransaction> {
+  /** ABI validation, with `arg.signer(n)` checked against the declared signers */
+  private validateSteps(steps: Array<{ label: string; step: ComposerStep }>) {
+    return validateSteps(this.client.aptos, steps, {
+      signers: 1 + this.signers.length,
+    });
+  }
+
+  async build(options?: BuildOptions): Promise<AnyRawTransaction> {
     if (this.steps.length === 0) {
       throw new Error("DynamicComposer requires at least one step");
     }
 
     // Run ABI validation before building
-    const { warnings } = await validateSteps(this.client.aptos, this.steps);
+    let steps = this.steps;
+    let { validations, warnings } = await this.validateSteps(steps);
+
+    // Auto-sweep: deposit leftover FungibleAssets, then re-validate with them
+    let swept: string[] = [];
+    if (options?.autoSweep) {
+      const sweeps = sweepSteps(
+        steps,
+        validations,
+        this.sweepRecipient(options),
+      );
+      if (sweeps.length > 0) {
+        steps = [...steps, ...sweeps];
+        swept = sweeps.map((s) => s.label);
+        ({ validations, warnings } = await this.validateSteps(steps));
+      }
+    }
+
+    // On-chain guards wrap the plan, checking after any sweep deposits
+    const guarded = await this.onChainGuards();
+    if (guarded.before.length > 0) {
+      steps = [...guarded.before, ...steps, ...guarded.after];
+      ({ validations, warnings } = await this.validateSteps(steps));
+    }
+
     this.lastWarnings = warnings;
+    this.lastBuiltSteps = steps;
+    this.lastSweptSteps = swept;
 
     // Hard errors (codes ending in _ERROR) abort the build
     const hardErrors = warnings.filter((w) => w.code.endsWith("_ERROR"));
@@ -145,87 +530,337 @@ export class DynamicComposer {
       throw new Error(`Validation failed:\n  ${msgs}`);
     }
 
-    const steps = this.steps;
+    return this.buildSteps(steps, options);
+  }
 
-    const transaction = await BuildScriptComposerTransaction({
-      sender: this.client.accountAddress,
-      aptosConfig: this.client.config,
-      withFeePayer: options?.withFeePayer,
-      builder: async (composer) => {
-        const resultsMap = new Map<string, CallArgument[]>();
-        const signer = CallArgument.newSigner(0);
+  /** Steps for `onChain` guards, resolving their tokens only when there are any */
+  private async onChainGuards(): Promise<ReturnType<typeof onChainGuardSteps>> {
+    if (!this.guards.some((g) => g.kind === "min_delta" && g.onChain)) {
+      return { before: [], after: [] };
+    }
+    const { tokens } = await resolveTokens(this.client.aptos, this.trackedTokenInputs());
+    return onChainGuardSteps(this.guards, tokens, this.client.address);
+  }
 
-        for (const { label, step } of steps) {
-          const resolvedArgs = step.args.map((a) =>
-            resolveArg(a, signer, resultsMap),
-          );
+  /** Tracked tokens plus any token ids referenced only by guards */
+  private trackedTokenInputs(): TokenInput[] {
+    return [...this.tokens, ...guardTokenIds(this.guards, this.tokens)];
+  }
 
-          const callResults = await composer.addBatchedCalls({
-            function: step.function,
-            typeArguments: step.typeArguments ?? [],
-            functionArguments: resolvedArgs,
-          });
+  private sweepRecipient(options?: BuildOptions): string {
+    return (
+      (typeof options?.autoSweep === "object"
+        ? options.autoSweep.recipient
+        : undefined) ?? this.client.address
+    );
+  }
 
-          resultsMap.set(label, callResults);
-        }
+  /** Compose already-validated steps into a transaction */
+  private async buildSteps(
+    steps: Array<{ label: string; step: ComposerStep }>,
+    options?: BuildOptions,
+  ): Promise<AnyRawTransaction> {
+    const builder = async (composer: AptosScriptComposer) => {
+      const resultsMap = new Map<string, CallArgument[]>();
+      const signers = [0, ...this.signers.map((_, i) => i + 1)].map((i) =>
+        CallArgument.newSigner(i),
+      );
 
-        return composer;
-      },
-    });
+      for (const { label, step } of steps) {
+        const resolvedArgs = step.args.map((a) =>
+          resolveArg(a, signers, resultsMap),
+        );
+
+        const callResults = await composer.addBatchedCalls({
+          function: step.function,
+          typeArguments: step.typeArguments ?? [],
+          functionArguments: resolvedArgs,
+        });
+
+        resultsMap.set(label, callResults);
+      }
+
+      return composer;
+    };
 
+    const buildOptions =
+      options?.sequenceNumber !== undefined
+        ? { accountSequenceNumber: options.sequenceNumber }
+        : undefined;
+    const transaction: AnyRawTransaction =
+      this.signers.length > 0
+        ? await BuildScriptComposerMultiAgentTransaction({
+            sender: this.client.accountAddress,
+            aptosConfig: this.client.config,
+            options: buildOptions,
+            secondarySignerAddresses: this.signers.map((x) => x.address),
+            ...(options?.withFeePayer ? { feePayerAddress: AccountAddress.ZERO } : {}),
+            builder,
+          })
+        : await BuildScriptComposerTransaction({
+            sender: this.client.accountAddress,
+            aptosConfig: this.client.config,
+            options: buildOptions,
+            withFeePayer: options?.withFeePayer,
+            builder,
+          });
+
+    // Simulate and sign against the real sponsor, not the 0x0 placeholder
+    if (options?.withFeePayer && this.client.feePayer) {
+      transaction.feePayerAddress = this.client.feePayer.address;
+    }
     return transaction;
   }
 
-  async simulate(options?: {
-    withFeePayer?: boolean;
-  }): Promise<ComposedResult> {
+  private async simulateTransaction(
+    transaction: AnyRawTransaction,
+    tokenRegistry: Map<string, string>,
+    options?: BuildOptions,
+  ): Promise<SimulationResult> {
+    const signerPublicKey = options?.withFeePayer
+      ? undefined
+      : simulationPublicKey(this.client.publicKey);
+    // A fee payer without a known key is simulated without a signature check
+    const feePayer = options?.withFeePayer
+      ? { feePayerPublicKey: simulationPublicKey(this.client.feePayer?.publicKey) }
+      : {};
+    const [rawResult] =
+      transaction instanceof MultiAgentTransaction
+        ? await this.client.aptos.transaction.simulate.multiAgent({
+            signerPublicKey,
+            transaction,
+            // Signers without a known key are simulated without a signature check
+            secondarySignersPublicKeys: this.signers.map((x) =>
+              simulationPublicKey(
+                x.publicKey ? parsePublicKey(x.publicKey, x.scheme) : x.account?.publicKey,
+              ),
+            ),
+            ...feePayer,
+          })
+        : await this.client.aptos.transaction.simulate.simple({
+            signerPublicKey,
+            transaction,
+            ...feePayer,
+          });
+    return parseSimulationResult(rawResult, tokenRegistry);
+  }
+
+  /**
+   * Simulate each prefix of the built steps (sequentially, stopping at the
+   * first failure). Prefixes that leave FungibleAssets unconsumed are swept
+   * to the sender so they can run at all; the sweep's deposit gas lands on
+   * the last step of that prefix.
+   */
+  private async simulatePrefixes(
+    full: SimulationResult,
+    tokenRegistry: Map<string, string>,
+    options?: BuildOptions,
+  ): Promise<SimulationResult[]> {
+    const steps = this.lastBuiltSteps;
+    const prefixes: SimulationResult[] = [];
+
+    for (let k = 1; k < steps.length; k++) {
+      const result = await this.simulatePrefix(k, tokenRegistry, options);
+      prefixes.push(result);
+      if (!result.success) return prefixes;
+    }
+
+    prefixes.push(full);
+    return prefixes;
+  }
+
+  /** Simulate the first `count` built steps, sweeping leftover FAs so they can run */
+  private async simulatePrefix(
+    count: number,
+    tokenRegistry: Map<string, string>,
+    options?: BuildOptions,
+  ): Promise<SimulationResult> {
+    let prefix = this.lastBuiltSteps.slice(0, count);
+    const { validations } = await this.validateSteps(prefix);
+    prefix = [
+      ...prefix,
+      ...sweepSteps(prefix, validations, this.sweepRecipient(options)),
+    ];
+
+    const transaction = await this.buildSteps(prefix, options);
+    return this.simulateTransaction(transaction, tokenRegistry, options);
+  }
+
+  /**
+   * Find the step a failed simulation aborted in. The vm_status names the
+   * aborting module: if exactly one step calls into it, that's the step.
+   * Otherwise binary-search the prefixes ending at each candidate (the steps
+   * calling the module, or every step if none do — e.g. an abort deep in
+   * `0x1::fungible_asset`) for the first one that fails with the same
+   * vm_status. A prefix can also fail on its own, e.g. leaving a
+   * non-droppable return unconsumed; the search then can't tell, and the
+   * failure stays unattributed.
+   */
+  private async locateFailingStep(
+    vmStatus: string,
+    tokenRegistry: Map<string, string>,
+    options?: BuildOptions,
+  ): Promise<string | undefined> {
+    const steps = this.lastBuiltSteps;
+    const location = parseAbortLocation(vmStatus);
+
+    let candidates: number[] = [];
+    if (location) {
+      // vm_status may print the address in short or long form
+      const abortAddress = addressKey(location.address);
+      steps.forEach(({ step }, i) => {
+        const [addr, mod] = step.function.split("::");
+        if (mod === location.module && addressKey(addr) === abortAddress) {
+          candidates.push(i);
+        }
+      });
+    }
+    if (candidates.length === 1) return steps[candidates[0]].label;
+    if (candidates.length === 0) candidates = steps.map((_, i) => i);
+
+    try {
+      let lo = 0;
+      let hi = candidates.length - 1;
+      while (lo < hi) {
+        const mid = Math.floor((lo + hi) / 2);
+        const result = await this.simulatePrefix(
+          candidates[mid] + 1,
+          tokenRegistry,
+          options,
+        );
+        if (result.success) lo = mid + 1;
+        else if (result.vmStatus === vmStatus) hi = mid;
+        else return undefined;
+      }
+      return steps[candidates[lo]].label;
+    } catch {
+      // A prefix that can't be built leaves the failure unattributed
+      return undefined;
+    }
+  }
+
+  async simulate(options?: SimulateOptions): Promise<ComposedResult> {
     const transaction = await this.build(options);
+    const tokenInputs = this.trackedTokenInputs();
+    const resolved = await resolveTokens(this.client.aptos, tokenInputs);
 
     const tokenRegistry = new Map<string, string>();
-    for (const t of this.tokens) {
-      tokenRegistry.set(t.metadata, t.symbol);
+    for (const t of resolved.tokens) {
+      for (const key of tokenComponents(t)) tokenRegistry.set(key, t.symbol);
     }
 
-    const [rawResult] = await this.client.aptos.transaction.simulate.simple({
-      signerPublicKey: options?.withFeePayer
-        ? undefined
-        : this.client.publicKey,
+    const simulation = await this.simulateTransaction(
       transaction,
-      ...(options?.withFeePayer
-        ? { feePayerPublicKey: this.client.publicKey }
-        : {}),
-    });
+      tokenRegistry,
+      options,
+    );
+    const simulatedAt = Date.now();
+    if (options?.preState) {
+      await fetchWriteSetPreState(this.client.aptos, simulation);
+    }
 
-    const simulation = parseSimulationResult(rawResult, tokenRegistry);
+    // Label (and track) FAs / coins the simulation touched that weren't listed
+    const discoveredTokens =
+      (options?.discoverTokens ?? tokenInputs.length > 0)
+        ? await discoverTokens(this.client.aptos, simulation, resolved.tokens)
+        : [];
+    for (const t of discoveredTokens) {
+      for (const key of tokenComponents(t)) tokenRegistry.set(key, t.symbol);
+    }
+    for (const change of simulation.balanceChanges) {
+      change.token = resolveTokenSymbol(change.tokenMetadata, tokenRegistry);
+    }
 
     let balanceDiff = null;
-    if (this.tokens.length > 0) {
-      const snapshot = await captureSnapshot(
-        this.client.aptos,
-        this.client.address,
-        this.tokens,
-      );
+    const tokens = [...resolved.tokens, ...discoveredTokens];
+    if (tokens.length > 0) {
+      // "Before" balances come from the node at the version the simulation
+      // ran against, so they agree with the write set.
+      const ledgerVersion = preStateLedgerVersion(simulation.raw);
+      const parties = await Promise.all(
+        this.trackedParties().map(async (party) => {
+          const snapshot = await capturePartySnapshot(
+            this.client.aptos,
+            party,
+            tokens,
+            ledgerVersion,
+          );
+          const afterBalances = extractPartyBalancesFromSimulation(
+            simulation.raw,
+            tokens,
+            party,
+          );
 
-      const afterBalances = extractBalancesFromSimulation(
-        simulation.raw,
-        this.tokens,
-        this.client.address,
+          const mergedBalances = new Map(snapshot.balances);
+          for (const [meta, bal] of afterBalances) {
+            mergedBalances.set(meta, bal);
+          }
+          return { party, snapshot, mergedBalances };
+        }),
       );
 
-      const mergedBalances = new Map(snapshot.balances);
-      for (const [meta, bal] of afterBalances) {
-        mergedBalances.set(meta, bal);
-      }
-
-      balanceDiff = computeDiff(snapshot, mergedBalances, this.tokens);
+      const [sender] = parties;
+      const readErrors = parties.flatMap((p) => p.snapshot.errors ?? []);
+      balanceDiff = {
+        ...computeDiff(sender.snapshot, sender.mergedBalances, tokens),
+        parties: parties.map((p) => ({
+          party: p.party,
+          deltas: computeDeltas(
+            p.snapshot.balances,
+            p.mergedBalances,
+            tokens,
+            p.snapshot.errors,
+          ),
+        })),
+        ...(readErrors.length > 0 ? { errors: readErrors } : {}),
+      };
     }
 
-    const errors = simulation.success
-      ? []
-      : diagnoseVmStatus(simulation.vmStatus);
+    const warnings: ValidationWarning[] = [
+      ...this.lastWarnings,
+      ...resolved.mismatches.map((m) => ({
+        stepLabel: "tokens",
+        code: "TOKEN_DECIMALS_MISMATCH",
+        message: `${m.token.symbol}: configured decimals ${m.configured}, on-chain ${m.onChain} — using ${m.onChain}`,
+      })),
+    ];
+    const planHash = hashPlan(this.toJSON(), options);
+    const stepLabels = this.lastBuiltSteps.map((s) => s.label);
+    const sweptSteps = this.lastSweptSteps;
+
+    const perStep = options?.perStep
+      ? attributeSteps(
+          stepLabels,
+          await this.simulatePrefixes(simulation, tokenRegistry, options),
+          simulation,
+        )
+      : null;
+
+    let errors: DiagnosedError[] = [];
+    if (!simulation.success) {
+      const failedStep =
+        perStep?.find((p) => p.status === "failed" && p.vmStatus === simulation.vmStatus)
+          ?.label ??
+        (await this.locateFailingStep(
+          simulation.vmStatus,
+          tokenRegistry,
+          options,
+        ));
+      errors = diagnoseVmStatus(
+        simulation.vmStatus,
+        failedStep,
+        await decodeAbort(this.client.aptos, simulation.vmStatus),
+      );
+    }
 
-    const warnings = this.lastWarnings;
-    const stepLabels = this.steps.map((s) => s.label);
+    const guards = evaluateGuards(
+      this.guards,
+      simulation,
+      balanceDiff,
+      this.client.address,
+    );
+    errors = [...errors, ...guardErrors(guards)];
+    const failedGuards = guards.filter((g) => !g.passed);
 
     const summary = formatComposedSummary(
       stepLabels,
@@ -233,12 +868,16 @@ export class DynamicComposer {
       balanceDiff,
       errors,
       warnings,
+      sweptSteps,
+      perStep,
+      discoveredTokens,
+      guards,
     );
 
     const client = this.client;
 
-    return {
-      success: simulation.success,
+    const result: ComposedResult = {
+      success: simulation.success && failedGuards.length === 0,
       simulation,
       transaction,
       balanceDiff,
@@ -246,27 +885,120 @@ export class DynamicComposer {
       warnings,
       summary,
       stepLabels,
-      execute: () =>
-        executeTransaction(
-          client,
-          transaction,
-          `Composed: ${stepLabels.join(" \u2192 ")}`,
-        ),
+      sweptSteps,
+      perStep,
+      discoveredTokens,
+      guards,
+      planHash,
+      simulatedAt,
+      // Per-step attribution isn't needed to detect drift
+      resimulate: async (tolerance) =>
+        compareResults(result, await this.simulate({ ...options, perStep: false }), tolerance),
+      execute: async (executeOptions) => {
+        if (failedGuards.length > 0) {
+          throw new Error(
+            `Refusing to execute: ${failedGuards.length} guard(s) failed:\n  ${failedGuards
+              .map((g) => `${g.message} (actual ${g.actual})`)
+              .join("\n  ")}`,
+          );
+        }
+        if (executeOptions?.resimulate) {
+          const drift = await result.resimulate(
+            typeof executeOptions.resimulate === "object"
+              ? executeOptions.resimulate
+              : undefined,
+          );
+          if (drift.drifted || !drift.fresh.simulation.success) {
+            throw new DriftError(drift);
+          }
+          return drift.fresh.execute();
+        }
+        // The simulated transaction goes out first if the queue assigns its
+        // sequence number; any other number, or a retry, rebuilds the plan
+        let attempts = 0;
+        return client.submissions.submit({
+          description: `Composed: ${stepLabels.join(" \u2192 ")}`,
+          secondarySigners: this.signingFunctions(),
+          build: async (sequenceNumber) => {
+            if (attempts++ === 0 && sequenceNumber === transaction.rawTransaction.sequence_number) {
+              return transaction;
+            }
+            const rebuilt = await this.build({ ...options, sequenceNumber });
+            if (hashPlan(this.toJSON(), options) !== planHash) {
+              throw new Error(
+                "Cannot rebuild for resubmission: the plan changed since it was simulated",
+              );
+            }
+            return rebuilt;
+          },
+        });
+      },
     };
+    return result;
   }
 
   static fromJSON(client: AptosClient, json: DynamicPlanJSON): DynamicComposer {
+    assertPlanJSON(json);
+    return DynamicComposer.fromPlan(client, json);
+  }
+
+  /**
+   * Instantiate a templated plan. Supplied values are checked against the
+   * declared param types; omitted params fall back to their defaults.
+   */
+  static fromTemplate(
+    client: AptosClient,
+    template: DynamicPlanTemplateJSON,
+    params: Record<string, TemplateParamValue> = {},
+  ): DynamicComposer {
+    assertPlanJSON(template);
+    const resolved = resolveTemplateParams(template, params, client.address);
+    return DynamicComposer.fromPlan(client, template, resolved);
+  }
+
+  private static fromPlan(
+    client: AptosClient,
+    json: DynamicPlanJSON,
+    params?: Map<string, LiteralValue>,
+  ): DynamicComposer {
     const composer = new DynamicComposer(client);
 
     if (json.tokens) {
-      composer.trackTokens(json.tokens);
+      composer.trackTokens(json.tokens, json.tracking);
+    }
+    for (const signer of json.signers ?? []) {
+      composer.addSigner(signer);
+    }
+    for (const guard of json.guards ?? []) {
+      composer.addGuard(guard);
     }
 
     for (const step of json.steps) {
+      if ("use" in step) {
+        const definition = json.subPlans?.[step.use];
+        const plan = definition
+          ? deserializeSubPlan(definition, params)
+          : BUILTIN_SUB_PLANS[step.use];
+        if (!plan) {
+          throw new Error(
+            `Step "${step.label}" uses unknown sub-plan "${step.use}". Available: [${[
+              ...Object.keys(json.subPlans ?? {}),
+              ...Object.keys(BUILTIN_SUB_PLANS),
+            ].join(", ")}]`,
+          );
+        }
+        const inputs: Record<string, StepArg> = {};
+        for (const [name, a] of Object.entries(step.inputs ?? {})) {
+          inputs[name] = deserializeArg(a, params);
+        }
+        composer.addSubPlan(step.label, plan, inputs);
+        continue;
+      }
+
       composer.addStep(step.label, {
         function: step.function,
         typeArguments: step.typeArguments,
-        args: step.args.map(deserializeArg),
+        args: step.args.map((a) => deserializeArg(a, params)),
       });
     }
 
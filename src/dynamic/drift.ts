@@ -0,0 +1,143 @@
+import type { BalanceDelta, BalanceDiff } from "../simulation/types.js";
+import { tokenComponents } from "../core/balance.js";
+import { formatAmount } from "../core/amount.js";
+import { addressKey } from "../core/util.js";
+import type {
+  ComposedResult,
+  DriftReport,
+  DriftTolerance,
+  TokenDrift,
+} from "./types.js";
+
+const DEFAULT_DELTA_BPS = 50;
+const DEFAULT_GAS_BPS = 2000;
+
+// ── Helpers ───────────────────────────────────────────────────────
+
+/** Deltas per (owner, token), the token keyed by its components */
+function deltasByParty(diff: BalanceDiff | null): Map<string, BalanceDelta> {
+  const map = new Map<string, BalanceDelta>();
+  if (!diff) return map;
+  const parties = diff.parties ?? [
+    { party: { address: diff.owner, kind: "owner" as const }, deltas: diff.deltas },
+  ];
+  for (const { party, deltas } of parties) {
+    const owner = addressKey(party.address);
+    for (const d of deltas) {
+      map.set(`${owner}|${tokenComponents(d.token).join(",")}`, d);
+    }
+  }
+  return map;
+}
+
+/** |difference| in basis points of |base|; Infinity when base is zero */
+function bps(difference: bigint, base: bigint): number {
+  const abs = (n: bigint) => (n < 0n ? -n : n);
+  if (difference === 0n) return 0;
+  if (base === 0n) return Infinity;
+  return Number((abs(difference) * 10000n) / abs(base));
+}
+
+// ── Comparison ────────────────────────────────────────────────────
+
+/**
+ * Compare a re-simulation against the original result. Any token delta
+ * (for any tracked party) that moved by more than `deltaBps`, a gas increase
+ * beyond `gasBps`, a change in plan hash, a failed re-simulation (even if the
+ * original failed too), or a failed guard in the re-simulation counts as drift.
+ */
+export function compareResults(
+  original: ComposedResult,
+  fresh: ComposedResult,
+  tolerance: DriftTolerance = {},
+): DriftReport {
+  const deltaBps = tolerance.deltaBps ?? DEFAULT_DELTA_BPS;
+  const gasBps = tolerance.gasBps ?? DEFAULT_GAS_BPS;
+  const reasons: string[] = [];
+
+  if (fresh.planHash !== original.planHash) {
+    reasons.push("plan changed since the original simulation");
+  }
+  if (!fresh.simulation.success) {
+    reasons.push(`re-simulation failed: ${fresh.simulation.vmStatus}`);
+  } else if (!original.simulation.success) {
+    reasons.push("re-simulation succeeded where the original failed");
+  }
+  for (const g of fresh.guards.filter((r) => !r.passed)) {
+    reasons.push(`guard failed: ${g.message} (actual ${g.actual})`);
+  }
+
+  // Tokens only one side tracked (e.g. newly discovered) count from zero
+  const before = deltasByParty(original.balanceDiff);
+  const after = deltasByParty(fresh.balanceDiff);
+  const tokens: TokenDrift[] = [];
+  for (const [key, { token }] of new Map([...before, ...after])) {
+    const simulated = before.get(key)?.delta ?? 0n;
+    const current = after.get(key)?.delta ?? 0n;
+    const difference = current - simulated;
+    if (difference === 0n) continue;
+
+    const differenceBps = bps(difference, simulated);
+    const exceeded = differenceBps > deltaBps;
+    const owner = key.slice(0, key.indexOf("|"));
+    const differenceFormatted = formatAmount(difference, token.decimals, { signed: true });
+    tokens.push({
+      owner,
+      token,
+      simulated,
+      current,
+      difference,
+      differenceFormatted,
+      differenceBps,
+      exceeded,
+    });
+    if (exceeded) {
+      reasons.push(
+        `${token.symbol} delta for ${owner.slice(0, 8)}... moved ${differenceFormatted} ` +
+          `(${differenceBps === Infinity ? "from zero" : `${differenceBps} bps`}, tolerance ${deltaBps} bps)`,
+      );
+    }
+  }
+
+  const gasDifference = fresh.simulation.gasUsed - original.simulation.gasUsed;
+  const gasDiffBps = bps(BigInt(gasDifference), BigInt(original.simulation.gasUsed));
+  const gasExceeded = gasDifference > 0 && gasDiffBps > gasBps;
+  if (gasExceeded) {
+    reasons.push(
+      `gas rose from ${original.simulation.gasUsed} to ${fresh.simulation.gasUsed} (tolerance ${gasBps} bps)`,
+    );
+  }
+
+  return {
+    drifted: reasons.length > 0,
+    reasons,
+    tokens,
+    gas: {
+      simulated: original.simulation.gasUsed,
+      current: fresh.simulation.gasUsed,
+      differenceBps: gasDifference < 0 ? -gasDiffBps : gasDiffBps,
+      exceeded: gasExceeded,
+    },
+    elapsedMs: fresh.simulatedAt - original.simulatedAt,
+    fresh,
+  };
+}
+
+/** Human-readable drift report, one reason per line */
+export function formatDriftReport(report: DriftReport): string {
+  const lines = [
+    `Drift after ${(report.elapsedMs / 1000).toFixed(1)}s: ${report.drifted ? "DRIFTED" : "within tolerance"}`,
+  ];
+  for (const r of report.reasons) lines.push(`  ${r}`);
+  return lines.join("\n");
+}
+
+// ── Errors ────────────────────────────────────────────────────────
+
+/** Thrown by `execute({ resimulate })` when the re-simulation drifted or failed */
+export class DriftError extends Error {
+  constructor(readonly report: DriftReport) {
+    super(`Refusing to execute: ${formatDriftReport(report)}`);
+    this.name = "DriftError";
+  }
+}
@@ -0,0 +1,315 @@
+import type { SimulationResult, TokenConfig, TokenInput } from "../types.js";
+import type { BalanceDelta, BalanceDiff, DiagnosedError } from "../simulation/types.js";
+import { tokenComponents } from "../core/balance.js";
+import { formatAmount, isAmountString, parseAmount } from "../core/amount.js";
+import { errorMessage, normalizeAddress, sameAddress } from "../core/util.js";
+import { typesMatch } from "./move-types.js";
+import { arg } from "./types.js";
+import type { ComposerStep, Guard, GuardAmount, GuardJSON, GuardResult } from "./types.js";
+
+// ── Token References ──────────────────────────────────────────────
+
+/** A metadata address or coin type, as opposed to a symbol */
+function isTokenId(ref: string): boolean {
+  return ref.includes("::") || /^0x[0-9a-fA-F]+$/.test(ref);
+}
+
+function sameId(a: string, b: string): boolean {
+  if (a.includes("::") || b.includes("::")) {
+    const flat = (t: string) => t.replace(/\s+/g, "").toLowerCase();
+    return typesMatch(a, b) === true || flat(a) === flat(b);
+  }
+  const na = normalizeAddress(a);
+  return na !== null && na === normalizeAddress(b);
+}
+
+/** The token a guard refers to, by symbol or by any of its components */
+export function findGuardToken(tokens: TokenConfig[], ref: string): TokenConfig | undefined {
+  return (
+    tokens.find((t) => t.symbol === ref) ??
+    (isTokenId(ref)
+      ? tokens.find((t) => tokenComponents(t).some((k) => sameId(k, ref)))
+      : undefined)
+  );
+}
+
+/** Token ids referenced by delta guards that `tokens` doesn't already cover */
+export function guardTokenIds(guards: Guard[], tokens: TokenInput[]): string[] {
+  const covered = tokens.flatMap((t) => (typeof t === "string" ? [t] : tokenComponents(t)));
+  const ids: string[] = [];
+  for (const g of guards) {
+    if (g.kind !== "min_delta" && g.kind !== "max_delta") continue;
+    if (!isTokenId(g.token)) continue;
+    if ([...covered, ...ids].some((id) => sameId(id, g.token))) continue;
+    ids.push(g.token);
+  }
+  return ids;
+}
+
+// ── Amounts ───────────────────────────────────────────────────────
+
+const RAW_AMOUNT = /^[+-]?\d+n$/;
+
+/** A guard amount in base units of `token` */
+export function guardAmount(amount: GuardAmount, token: TokenConfig): bigint {
+  if (typeof amount === "bigint") return amount;
+  if (RAW_AMOUNT.test(amount.trim())) return BigInt(amount.trim().slice(0, -1));
+  return parseAmount(amount, token);
+}
+
+/** Throw on a malformed guard (checked when the guard is added) */
+export function checkGuard(guard: Guard, sender: string): void {
+  switch (guard.kind) {
+    case "min_delta":
+    case "max_delta":
+      if (!guard.token || guard.token.trim() === "") {
+        throw new Error(`${guard.kind} guard: empty token`);
+      }
+      if (typeof guard.amount === "string") {
+        // Decimals aren't known yet; reject what no token could parse
+        const s = guard.amount.trim();
+        if (!RAW_AMOUNT.test(s) && !isAmountString(s)) {
+          throw new Error(`${guard.kind} guard: invalid amount "${guard.amount}"`);
+        }
+      }
+      if (guard.owner !== undefined && !normalizeAddress(guard.owner)) {
+        throw new Error(`${guard.kind} guard: "${guard.owner}" is not a valid address`);
+      }
+      if (
+        guard.kind === "min_delta" &&
+        guard.onChain &&
+        guard.owner !== undefined &&
+        !sameAddress(guard.owner, sender)
+      ) {
+        throw new Error("On-chain guards can only check the sender's balance");
+      }
+      return;
+    case "max_gas":
+      if (!Number.isInteger(guard.gasUnits) || guard.gasUnits <= 0) {
+        throw new Error(
+          `max_gas guard: gasUnits must be a positive integer, got ${guard.gasUnits}`,
+        );
+      }
+      return;
+    case "event":
+      if (!guard.type.includes("::")) {
+        throw new Error(`event guard: "${guard.type}" is not a Move event type`);
+      }
+      if (
+        guard.minCount !== undefined &&
+        (!Number.isInteger(guard.minCount) || guard.minCount < 1)
+      ) {
+        throw new Error(
+          `event guard: minCount must be a positive integer, got ${guard.minCount}`,
+        );
+      }
+      return;
+  }
+}
+
+// ── JSON ──────────────────────────────────────────────────────────
+
+export function serializeGuard(guard: Guard): GuardJSON {
+  if (guard.kind !== "min_delta" && guard.kind !== "max_delta") return { ...guard };
+  const amount = typeof guard.amount === "bigint" ? `${guard.amount}n` : guard.amount;
+  return { ...guard, amount };
+}
+
+// ── Evaluation ────────────────────────────────────────────────────
+
+function eventMatches(eventType: string, shortType: string, wanted: string): boolean {
+  return eventType === wanted || shortType === wanted || typesMatch(eventType, wanted) === true;
+}
+
+function evaluateDelta(
+  guard: Extract<Guard, { kind: "min_delta" | "max_delta" }>,
+  balanceDiff: BalanceDiff | null,
+  sender: string,
+): GuardResult {
+  const isMin = guard.kind === "min_delta";
+  const owner = guard.owner ?? sender;
+  const fail = (actual: string, message: string): GuardResult => ({
+    guard,
+    passed: false,
+    actual,
+    message,
+  });
+
+  const isOwner = (a: string) => sameAddress(a, owner);
+  const deltas = !balanceDiff
+    ? undefined
+    : isOwner(sender)
+      ? balanceDiff.deltas
+      : balanceDiff.parties?.find((p) => isOwner(p.party.address))?.deltas;
+  const token = deltas && findGuardToken(deltas.map((d) => d.token), guard.token);
+  const delta = token && deltas.find((d) => d.token === token);
+  if (!delta) {
+    const op = isMin ? ">=" : "<=";
+    return fail("untracked", `${guard.token} delta ${op} ${guard.amount} (token not tracked)`);
+  }
+
+  const symbol = delta.token.symbol;
+  let bound: bigint;
+  try {
+    bound = guardAmount(guard.amount, delta.token);
+  } catch (e) {
+    return fail("invalid", `${symbol} delta: ${errorMessage(e)}`);
+  }
+  const who = guard.owner ? ` for ${guard.owner}` : "";
+  const limit = formatAmount(bound, delta.token.decimals, { signed: true });
+  const message = `${symbol} delta${who} ${isMin ? ">=" : "<="} ${limit}`;
+  if (delta.error) {
+    return fail("unknown", `${message} (balance read failed: ${delta.error})`);
+  }
+  const passed = isMin ? delta.delta >= bound : delta.delta <= bound;
+  return { guard, passed, actual: delta.deltaFormatted, message };
+}
+
+/**
+ * Check guards against a simulation. Delta guards need their token tracked
+ * for their owner; an untracked token or an unreadable balance fails the guard.
+ */
+export function evaluateGuards(
+  guards: Guard[],
+  simulation: SimulationResult,
+  balanceDiff: BalanceDiff | null,
+  sender: string,
+): GuardResult[] {
+  return guards.map((guard): GuardResult => {
+    switch (guard.kind) {
+      case "min_delta":
+      case "max_delta":
+        return evaluateDelta(guard, balanceDiff, sender);
+      case "max_gas":
+        return {
+          guard,
+          passed: simulation.gasUsed <= guard.gasUnits,
+          actual: `${simulation.gasUsed} gas`,
+          message: `gas <= ${guard.gasUnits}`,
+        };
+      case "event": {
+        const minCount = guard.minCount ?? 1;
+        const count = simulation.events.filter((e) =>
+          eventMatches(e.type, e.shortType, guard.type),
+        ).length;
+        return {
+          guard,
+          passed: count >= minCount,
+          actual: `${count} event(s)`,
+          message: `${guard.type} emitted${minCount > 1 ? ` >= ${minCount} times` : ""}`,
+        };
+      }
+    }
+  });
+}
+
+/** One `GUARD_FAILED` diagnosis per failed guard */
+export function guardErrors(results: GuardResult[]): DiagnosedError[] {
+  return results
+    .filter((r) => !r.passed)
+    .map((r) => {
+      const delta = r.guard.kind === "min_delta" || r.guard.kind === "max_delta";
+      const text =
+        r.actual === "untracked"
+          ? "Track the token with trackTokens(), or give the guard its metadata address or coin type."
+          : delta
+        ? "Re-quote the plan's amounts and simulate again, or loosen the guard."
+        : r.guard.kind === "max_gas"
+          ? "Reduce the number of steps, or raise the gas guard."
+          : "Check that the plan calls the function that emits this event.";
+      return {
+        severity: "error" as const,
+        code: "GUARD_FAILED",
+        title: `Guard failed: ${r.message}`,
+        detail: `The simulation produced ${r.actual}. execute() will not submit this transaction.`,
+        suggestion: text,
+        suggestions: [{ text, ...(delta ? { action: "requote" } : {}) }],
+        stepLabel: "guards",
+      };
+    });
+}
+
+// ── On-Chain Checks ───────────────────────────────────────────────
+
+const METADATA_TYPE = "0x1::fungible_asset::Metadata";
+/** Label prefix of generated on-chain guard steps; user steps can't use it */
+export const GUARD_LABEL_PREFIX = "guard.";
+
+/**
+ * Script steps enforcing `onChain` min-delta guards. `before` reads each
+ * guarded balance ahead of the plan. `after` withdraws that baseline and then
+ * the minimum from the sender's primary store, which aborts with
+ * `EINSUFFICIENT_BALANCE` if the plan delivered less, and deposits both back.
+ * Only the primary FA store is checked, not a paired `CoinStore`.
+ */
+export function onChainGuardSteps(
+  guards: Guard[],
+  tokens: TokenConfig[],
+  sender: string,
+): {
+  before: Array<{ label: string; step: ComposerStep }>;
+  after: Array<{ label: string; step: ComposerStep }>;
+} {
+  const before: Array<{ label: string; step: ComposerStep }> = [];
+  const after: Array<{ label: string; step: ComposerStep }> = [];
+
+  guards.forEach((guard, i) => {
+    if (guard.kind !== "min_delta" || !guard.onChain) return;
+    const token = findGuardToken(tokens, guard.token);
+    if (!token) {
+      throw new Error(`On-chain guard: token "${guard.token}" is not tracked`);
+    }
+    if (!token.metadata) {
+      throw new Error(`On-chain guard: ${token.symbol} has no fungible asset metadata`);
+    }
+    const minimum = guardAmount(guard.amount, token);
+    if (minimum < 0n) {
+      throw new Error(`On-chain guard: ${token.symbol} minimum must be non-negative`);
+    }
+
+    const label = `${GUARD_LABEL_PREFIX}${i}`;
+    const typeArguments = [METADATA_TYPE];
+    before.push({
+      label: `${label}.before`,
+      step: {
+        function: "0x1::primary_fungible_store::balance",
+        typeArguments,
+        args: [arg.address(sender), arg.object(token.metadata)],
+      },
+    });
+    after.push(
+      {
+        label: `${label}.hold`,
+        step: {
+          function: "0x1::primary_fungible_store::withdraw",
+          typeArguments,
+          args: [arg.signer(), arg.object(token.metadata), arg.ref(`${label}.before`, 0)],
+        },
+      },
+      {
+        label: `${label}.check`,
+        step: {
+          function: "0x1::primary_fungible_store::withdraw",
+          typeArguments,
+          args: [arg.signer(), arg.object(token.metadata), arg.u64(minimum)],
+        },
+      },
+      {
+        label: `${label}.release`,
+        step: {
+          function: "0x1::primary_fungible_store::deposit",
+          args: [arg.address(sender), arg.ref(`${label}.hold`, 0)],
+        },
+      },
+      {
+        label: `${label}.releaseCheck`,
+        step: {
+          function: "0x1::primary_fungible_store::deposit",
+          args: [arg.address(sender), arg.ref(`${label}.check`, 0)],
+        },
+      },
+    );
+  });
+
+  return { before, after };
+}
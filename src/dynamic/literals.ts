@@ -0,0 +1,154 @@
+import {
+  AccountAddress,
+  Hex,
+  MoveOption,
+  MoveString,
+  MoveVector,
+  U8,
+  U16,
+  U32,
+  U64,
+  U128,
+  U256,
+  checkOrConvertArgument,
+  parseTypeTag,
+  type EntryFunctionArgumentTypes,
+  type SimpleEntryFunctionArgumentTypes,
+} from "@aptos-labs/ts-sdk";
+import type {
+  LiteralValue,
+  LiteralValueJSON,
+  TypedLiteral,
+} from "./types.js";
+
+export function isTypedLiteral(value: LiteralValue): value is TypedLiteral {
+  return typeof value === "object" && value !== null && "type" in value;
+}
+
+/** Convert a literal nested in a vector/option to a Move value of `elementType` */
+function encodeElement(
+  value: LiteralValue,
+  elementType: string,
+): EntryFunctionArgumentTypes {
+  if (isTypedLiteral(value)) return encodeTyped(value);
+  return checkOrConvertArgument(
+    value,
+    parseTypeTag(elementType),
+    0,
+    [],
+  ) as EntryFunctionArgumentTypes;
+}
+
+function encodeTyped(value: TypedLiteral): EntryFunctionArgumentTypes {
+  switch (value.type) {
+    case "u8":
+      return new U8(Number(value.value));
+    case "u16":
+      return new U16(Number(value.value));
+    case "u32":
+      return new U32(Number(value.value));
+    case "u64":
+      return new U64(value.value);
+    case "u128":
+      return new U128(value.value);
+    case "u256":
+      return new U256(value.value);
+    case "address":
+    case "object":
+      return AccountAddress.from(value.value);
+    case "string":
+      return new MoveString(value.value);
+    case "bytes":
+      return MoveVector.U8(Hex.fromHexInput(value.value).toUint8Array());
+    case "vector":
+      return new MoveVector(
+        value.items.map((item) => encodeElement(item, value.elementType)),
+      );
+    case "option":
+      return new MoveOption(
+        value.value === null
+          ? null
+          : encodeElement(value.value, value.elementType),
+      );
+  }
+}
+
+/**
+ * Encode a step literal for `addBatchedCalls`. Plain JS values are passed
+ * through for ABI-driven conversion; typed literals become BCS Move values.
+ */
+export function encodeLiteral(
+  value: LiteralValue,
+): SimpleEntryFunctionArgumentTypes | EntryFunctionArgumentTypes {
+  return isTypedLiteral(value) ? encodeTyped(value) : value;
+}
+
+// ── JSON Decoding ─────────────────────────────────────────────────
+
+/**
+ * Decode a JSON literal ("123n" strings become bigints, typed integers become
+ * bigint values). Already-decoded literals pass through unchanged.
+ */
+export function deserializeLiteral(
+  json: LiteralValueJSON | LiteralValue,
+): LiteralValue {
+  if (typeof json === "string" && /^\d+n$/.test(json)) {
+    return BigInt(json.slice(0, -1));
+  }
+  if (typeof json !== "object") return json;
+
+  switch (json.type) {
+    case "vector":
+      return {
+        type: "vector",
+        elementType: json.elementType,
+        items: json.items.map(deserializeLiteral),
+      };
+    case "option":
+      return {
+        type: "option",
+        elementType: json.elementType,
+        value: json.value === null ? null : deserializeLiteral(json.value),
+      };
+    case "address":
+    case "object":
+    case "string":
+    case "bytes":
+      return { type: json.type, value: json.value };
+    default: {
+      const raw = String(json.value);
+      return {
+        type: json.type,
+        value: BigInt(raw.endsWith("n") ? raw.slice(0, -1) : raw),
+      };
+    }
+  }
+}
+
+/** Inverse of `deserializeLiteral` — bigints use the "123n" convention */
+export function serializeLiteral(value: LiteralValue): LiteralValueJSON {
+  if (typeof value === "bigint") return `${value}n`;
+  if (!isTypedLiteral(value)) return value;
+
+  switch (value.type) {
+    case "vector":
+      return {
+        type: "vector",
+        elementType: value.elementType,
+        items: value.items.map(serializeLiteral),
+      };
+    case "option":
+      return {
+        type: "option",
+        elementType: value.elementType,
+        value: value.value === null ? null : serializeLiteral(value.value),
+      };
+    case "address":
+    case "object":
+    case "string":
+    case "bytes":
+      return { type: value.type, value: value.value };
+    default:
+      return { type: value.type, value: value.value.toString() };
+  }
+}
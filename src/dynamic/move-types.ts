@@ -0,0 +1,261 @@
+import {
+  AccountAddress,
+  parseTypeTag,
+  TypeTagGeneric,
+  TypeTagStruct,
+  TypeTagVector,
+  type TypeTag,
+} from "@aptos-labs/ts-sdk";
+import type { LiteralValue, TypedLiteral } from "./types.js";
+import { isTypedLiteral } from "./literals.js";
+
+// ── Types ─────────────────────────────────────────────────────────
+
+export type ReferenceKind = "none" | "imm" | "mut";
+
+export interface ParsedParamType {
+  reference: ReferenceKind;
+  /** Type without the leading `&` / `&mut` */
+  inner: string;
+  /** Parsed inner type, or null if it could not be parsed */
+  tag: TypeTag | null;
+}
+
+// ── Integer Bounds ────────────────────────────────────────────────
+
+const UNSIGNED_BITS: Record<string, number> = {
+  u8: 8,
+  u16: 16,
+  u32: 32,
+  u64: 64,
+  u128: 128,
+  u256: 256,
+};
+
+const SIGNED_BITS: Record<string, number> = {
+  i8: 8,
+  i16: 16,
+  i32: 32,
+  i64: 64,
+  i128: 128,
+  i256: 256,
+};
+
+export function integerBounds(typeName: string): [bigint, bigint] | null {
+  const unsigned = UNSIGNED_BITS[typeName];
+  if (unsigned !== undefined) {
+    return [0n, (1n << BigInt(unsigned)) - 1n];
+  }
+  const signed = SIGNED_BITS[typeName];
+  if (signed !== undefined) {
+    const half = 1n << BigInt(signed - 1);
+    return [-half, half - 1n];
+  }
+  return null;
+}
+
+// ── Parsing ───────────────────────────────────────────────────────
+
+const GENERIC_PARAM = /\bT(\d+)\b/g;
+
+/** True if the type still contains unresolved generic params (T0, T1, ...) */
+export function hasGenericParams(typeStr: string): boolean {
+  return new RegExp(GENERIC_PARAM.source).test(typeStr);
+}
+
+/**
+ * Replace generic params (`T0`, `T1`, ...) with the step's type arguments.
+ * Params without a matching type argument are left as-is.
+ */
+export function substituteTypeParams(
+  typeStr: string,
+  typeArguments: string[],
+): string {
+  return typeStr.replace(GENERIC_PARAM, (match, idx: string) => {
+    return typeArguments[Number(idx)] ?? match;
+  });
+}
+
+function splitReference(typeStr: string): [ReferenceKind, string] {
+  const trimmed = typeStr.trim();
+  if (trimmed.startsWith("&mut ")) return ["mut", trimmed.slice(5).trim()];
+  if (trimmed.startsWith("&")) return ["imm", trimmed.slice(1).trim()];
+  return ["none", trimmed];
+}
+
+function tryParseTypeTag(typeStr: string): TypeTag | null {
+  try {
+    return parseTypeTag(typeStr, { allowGenerics: true });
+  } catch {
+    return null;
+  }
+}
+
+export function parseParamType(typeStr: string): ParsedParamType {
+  const [reference, inner] = splitReference(typeStr);
+  return { reference, inner, tag: tryParseTypeTag(inner) };
+}
+
+/**
+ * Compare two Move types after normalizing addresses and whitespace.
+ * Returns null if either side can't be compared (unparseable or still generic).
+ */
+export function typesMatch(a: string, b: string): boolean | null {
+  if (hasGenericParams(a) || hasGenericParams(b)) return null;
+  const tagA = tryParseTypeTag(a);
+  const tagB = tryParseTypeTag(b);
+  if (!tagA || !tagB) return null;
+  return tagA.toString() === tagB.toString();
+}
+
+// ── Literal Checking ──────────────────────────────────────────────
+
+function isValidAddress(value: string): boolean {
+  return AccountAddress.isValid({ input: value, strict: false }).valid;
+}
+
+function checkAddress(
+  value: LiteralValue,
+  typeName: string,
+): string | null {
+  if (typeof value !== "string") {
+    return `expected an address string for ${typeName}, got ${typeof value}`;
+  }
+  return isValidAddress(value) ? null : `"${value}" is not a valid address`;
+}
+
+function checkInteger(
+  value: LiteralValue,
+  typeName: string,
+  [min, max]: [bigint, bigint],
+): string | null {
+  let n: bigint;
+  if (typeof value === "bigint") {
+    n = value;
+  } else if (typeof value === "number") {
+    if (!Number.isInteger(value)) {
+      return `${value} is not an integer`;
+    }
+    if (!Number.isSafeInteger(value)) {
+      return `${value} exceeds Number.MAX_SAFE_INTEGER — pass a bigint instead`;
+    }
+    n = BigInt(value);
+  } else if (typeof value === "string" && /^-?\d+$/.test(value)) {
+    n = BigInt(value);
+  } else {
+    return `expected an integer for ${typeName}, got ${typeof value} ${JSON.stringify(String(value))}`;
+  }
+  if (n < min || n > max) {
+    return `${n} is out of range for ${typeName} (${min}..${max})`;
+  }
+  return null;
+}
+
+function checkElementType(
+  elementType: string,
+  expected: TypeTag,
+  typeName: string,
+  container: string,
+): string | null {
+  if (typesMatch(elementType, expected.toString()) === false) {
+    return `${container}<${elementType}> does not match ${typeName}`;
+  }
+  return null;
+}
+
+function checkTyped(value: TypedLiteral, tag: TypeTag): string | null {
+  const typeName = tag.toString();
+  const mismatch = `a ${value.type} literal cannot be passed for ${typeName}`;
+
+  switch (value.type) {
+    case "address":
+      return typeName === "address" ? checkAddress(value.value, typeName) : mismatch;
+
+    case "object":
+      return tag instanceof TypeTagStruct && tag.isObject()
+        ? checkAddress(value.value, typeName)
+        : mismatch;
+
+    case "string":
+      return tag instanceof TypeTagStruct && tag.isString() ? null : mismatch;
+
+    case "bytes":
+      if (typeName !== "vector<u8>") return mismatch;
+      return /^0x([0-9a-fA-F]{2})*$/.test(value.value)
+        ? null
+        : `"${value.value}" is not 0x-prefixed hex bytes`;
+
+    case "vector": {
+      if (!(tag instanceof TypeTagVector)) return mismatch;
+      const elementErr = checkElementType(value.elementType, tag.value, typeName, "vector");
+      if (elementErr) return elementErr;
+      for (let i = 0; i < value.items.length; i++) {
+        const reason = checkLiteral(value.items[i], tag.value);
+        if (reason) return `vector item ${i}: ${reason}`;
+      }
+      return null;
+    }
+
+    case "option": {
+      if (!(tag instanceof TypeTagStruct && tag.isOption())) return mismatch;
+      const inner = tag.value.typeArgs[0];
+      const elementErr = checkElementType(value.elementType, inner, typeName, "Option");
+      if (elementErr) return elementErr;
+      return value.value === null ? null : checkLiteral(value.value, inner);
+    }
+
+    default: {
+      if (typeName !== value.type) return mismatch;
+      return checkInteger(value.value, typeName, integerBounds(typeName)!);
+    }
+  }
+}
+
+/**
+ * Check a literal value against a Move parameter type using the same
+ * conversion rules as the SDK's `convertArgument`.
+ * Returns a reason string on mismatch, null if the literal is acceptable
+ * (or the type can't be checked, e.g. an unresolved generic).
+ */
+export function checkLiteral(value: LiteralValue, tag: TypeTag): string | null {
+  const typeName = tag.toString();
+
+  if (tag instanceof TypeTagGeneric) return null;
+  if (isTypedLiteral(value)) return checkTyped(value, tag);
+
+  if (typeName === "bool") {
+    if (typeof value === "boolean" || value === "true" || value === "false") {
+      return null;
+    }
+    return `expected a boolean for bool, got ${typeof value} ${JSON.stringify(String(value))}`;
+  }
+
+  const bounds = integerBounds(typeName);
+  if (bounds) return checkInteger(value, typeName, bounds);
+
+  if (typeName === "address") return checkAddress(value, typeName);
+
+  if (tag instanceof TypeTagVector) {
+    // vector<u8> accepts a UTF-8 string; any vector accepts a JSON array string
+    if (typeof value === "string" && (tag.value.isU8() || value.startsWith("["))) {
+      return null;
+    }
+    return `a scalar literal cannot be passed for ${typeName}`;
+  }
+
+  if (tag instanceof TypeTagStruct) {
+    if (tag.isString()) {
+      return typeof value === "string"
+        ? null
+        : `expected a string for ${typeName}, got ${typeof value}`;
+    }
+    if (tag.isObject()) return checkAddress(value, typeName);
+    if (tag.isOption()) {
+      // A present value is converted against the inner type
+      return checkLiteral(value, tag.value.typeArgs[0]);
+    }
+    return `struct ${typeName} cannot be constructed from a literal — pass it via arg.ref()`;
+  }
+
+  return null;
+}
@@ -0,0 +1,178 @@
+import { Hex, hashValues } from "@aptos-labs/ts-sdk";
+import { normalizeAddress } from "../core/util.js";
+import { deserializeLiteral, serializeLiteral } from "./literals.js";
+import type {
+  BuildOptions,
+  DynamicPlanJSON,
+  DynamicStepJSON,
+  LiteralValueJSON,
+  StepArgJSON,
+} from "./types.js";
+
+/** Domain separator so plan hashes can't collide with other SHA3-256 uses */
+const PLAN_HASH_DOMAIN = "TX_COMPOSER::DynamicPlan";
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value !== null && typeof value === "object") {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const v = (value as Record<string, unknown>)[key];
+      if (v !== undefined) sorted[key] = canonicalize(v);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/** Long-form module addresses in a function id or type ("0x1::coin::Coin<0x1::aptos_coin::AptosCoin>") */
+function normalizeTypeAddresses(type: string): string {
+  return type.replace(/0x[0-9a-fA-F]+(?=::)/g, (a) => normalizeAddress(a) ?? a);
+}
+
+function normalizeAddressLiterals(value: LiteralValueJSON): LiteralValueJSON {
+  if (typeof value !== "object") return value;
+  switch (value.type) {
+    case "address":
+    case "object":
+      return { type: value.type, value: normalizeAddress(value.value) ?? value.value };
+    case "vector":
+      return {
+        type: "vector",
+        elementType: normalizeTypeAddresses(value.elementType),
+        items: value.items.map(normalizeAddressLiterals),
+      };
+    case "option":
+      return {
+        type: "option",
+        elementType: normalizeTypeAddresses(value.elementType),
+        value: value.value === null ? null : normalizeAddressLiterals(value.value),
+      };
+    default:
+      return value;
+  }
+}
+
+/**
+ * An arg in the form `toJSON()` writes it, so equivalent spellings hash the
+ * same: ref mode "move" and signer index 0 are left out, typed integers are
+ * plain decimal strings and typed addresses are long-form. Untyped string
+ * literals are hashed as written, since they needn't be addresses.
+ */
+function normalizeArg(a: StepArgJSON): StepArgJSON {
+  switch (a.kind) {
+    case "signer":
+      return a.index ? { kind: "signer", index: a.index } : { kind: "signer" };
+    case "ref":
+      return {
+        kind: "ref",
+        step: a.step,
+        returnIndex: a.returnIndex,
+        ...(a.mode && a.mode !== "move" ? { mode: a.mode } : {}),
+      };
+    case "literal":
+      try {
+        return {
+          kind: "literal",
+          value: normalizeAddressLiterals(serializeLiteral(deserializeLiteral(a.value))),
+        };
+      } catch {
+        // Malformed literal: hash it as written
+        return a;
+      }
+    default:
+      return a;
+  }
+}
+
+/**
+ * Canonical JSON string for a plan: sorted keys, no whitespace, long-form
+ * addresses in function ids, type arguments and signers, undefined fields,
+ * default arg fields and empty `typeArguments` / `tokens` / `tracking` /
+ * `signers` / `guards` / `subPlans` dropped.
+ */
+export function canonicalPlanJSON(plan: DynamicPlanJSON): string {
+  const normalizeStep = (s: DynamicStepJSON) => ({
+    label: s.label,
+    function: normalizeTypeAddresses(s.function),
+    ...(s.typeArguments && s.typeArguments.length > 0
+      ? { typeArguments: s.typeArguments.map(normalizeTypeAddresses) }
+      : {}),
+    args: s.args.map(normalizeArg),
+  });
+
+  const subPlans = plan.subPlans ?? {};
+  const normalized = {
+    ...(plan.tokens && plan.tokens.length > 0 ? { tokens: plan.tokens } : {}),
+    ...(plan.tokens?.length && (plan.tracking?.owners?.length || plan.tracking?.stores?.length)
+      ? {
+          tracking: {
+            ...(plan.tracking.owners?.length ? { owners: plan.tracking.owners } : {}),
+            ...(plan.tracking.stores?.length ? { stores: plan.tracking.stores } : {}),
+          },
+        }
+      : {}),
+    ...(plan.signers && plan.signers.length > 0
+      ? { signers: plan.signers.map((a) => normalizeAddress(a) ?? a) }
+      : {}),
+    ...(plan.guards && plan.guards.length > 0 ? { guards: plan.guards } : {}),
+    ...(Object.keys(subPlans).length > 0
+      ? {
+          subPlans: Object.fromEntries(
+            Object.entries(subPlans).map(([name, def]) => [
+              name,
+              { ...def, steps: def.steps.map(normalizeStep) },
+            ]),
+          ),
+        }
+      : {}),
+    steps: plan.steps.map((s) =>
+      "use" in s
+        ? {
+            ...s,
+            ...(s.inputs
+              ? {
+                  inputs: Object.fromEntries(
+                    Object.entries(s.inputs).map(([name, a]) => [name, normalizeArg(a)]),
+                  ),
+                }
+              : {}),
+          }
+        : normalizeStep(s),
+    ),
+  };
+  return JSON.stringify(canonicalize(normalized));
+}
+
+/**
+ * Canonical JSON string for the build options that change what gets built,
+ * or null when they are all defaults. `sequenceNumber` is left out: a rebuild
+ * at a new sequence number is still the same plan.
+ */
+function canonicalBuildOptions(options: BuildOptions): string | null {
+  const normalized = {
+    ...(options.withFeePayer ? { withFeePayer: true } : {}),
+    ...(options.autoSweep
+      ? { autoSweep: options.autoSweep === true ? {} : options.autoSweep }
+      : {}),
+  };
+  return Object.keys(normalized).length > 0
+    ? JSON.stringify(canonicalize(normalized))
+    : null;
+}
+
+/**
+ * Deterministic SHA3-256 content hash of a plan (0x-prefixed hex). Build
+ * options that change the transaction (`withFeePayer`, `autoSweep`) are
+ * hashed with it; with none set, the hash is the plan's alone.
+ */
+export function hashPlan(plan: DynamicPlanJSON, options: BuildOptions = {}): string {
+  const build = canonicalBuildOptions(options);
+  return Hex.fromHexInput(
+    hashValues(
+      build === null
+        ? [PLAN_HASH_DOMAIN, canonicalPlanJSON(plan)]
+        : [PLAN_HASH_DOMAIN, canonicalPlanJSON(plan), build],
+    ),
+  ).toString();
+}
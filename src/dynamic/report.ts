@@ -1,6 +1,12 @@
-import type { SimulationResult } from "../types.js";
+import type { SimulationResult, TokenConfig } from "../types.js";
 import type { BalanceDiff, DiagnosedError } from "../simulation/types.js";
 import type { ValidationWarning } from "./validate.js";
+import type { GuardResult, StepAttribution } from "./types.js";
+import { formatAmount } from "../core/amount.js";
+
+function shortAddress(address: string): string {
+  return address.length > 14 ? `${address.slice(0, 8)}...${address.slice(-4)}` : address;
+}
 
 export function formatComposedSummary(
   stepLabels: string[],
@@ -8,11 +14,18 @@ export function formatComposedSummary(
   balanceDiff: BalanceDiff | undefined | null,
   errors: DiagnosedError[],
   warnings?: ValidationWarning[],
+  sweptSteps?: string[],
+  perStep?: StepAttribution[] | null,
+  discoveredTokens?: TokenConfig[],
+  guards?: GuardResult[],
 ): string {
   const lines: string[] = [];
 
   lines.push(`== Composed Transaction (${stepLabels.length} steps) ==`);
   lines.push(`Steps: ${stepLabels.join(" \u2192 ")}`);
+  if (sweptSteps && sweptSteps.length > 0) {
+    lines.push(`Auto-swept: ${sweptSteps.join(", ")}`);
+  }
   lines.push("");
 
   const status = simulation.success ? "OK" : "FAILED";
@@ -22,22 +35,79 @@ export function formatComposedSummary(
     lines.push(`VM Status: ${simulation.vmStatus}`);
   }
 
-  lines.push(
-    `Gas: ${simulation.gasCostApt.toFixed(6)} APT (${simulation.gasUsed} units)`,
-  );
+  const gasOctas = BigInt(simulation.gasUsed) * BigInt(simulation.gasUnitPrice);
+  const gasApt = formatAmount(gasOctas, 8, { precision: 6, rounding: "half-up" });
+  lines.push(`Gas: ${gasApt} APT (${simulation.gasUsed} units)`);
   lines.push("");
 
-  if (balanceDiff && balanceDiff.deltas.length > 0) {
-    const changed = balanceDiff.deltas.filter((d) => d.delta !== 0n);
+  if (perStep && perStep.length > 0) {
+    const width = Math.max(...perStep.map((p) => p.label.length));
+    lines.push("Per-Step:");
+    for (const p of perStep) {
+      if (p.status === "not_reached") {
+        lines.push(`  ${p.label.padEnd(width)}  (not reached)`);
+        continue;
+      }
+      const types = p.events.map((e) => e.shortType).join(", ");
+      const events = p.events.length > 0 ? ` ${p.events.length} event(s): ${types}` : "";
+      const failed = p.status === "failed" ? " FAILED" : "";
+      lines.push(`  ${p.label.padEnd(width)}  ${String(p.gasUsed).padStart(7)} gas${failed}${events}`);
+    }
+    lines.push("");
+  }
+
+  if (balanceDiff && balanceDiff.parties && balanceDiff.parties.length > 1) {
+    const moved = balanceDiff.parties
+      .map((p) => ({ ...p, changed: p.deltas.filter((d) => d.delta !== 0n || d.error) }))
+      .filter((p) => p.changed.length > 0);
+    if (moved.length > 0) {
+      lines.push("Balance Changes:");
+      for (const p of moved) {
+        const name = p.party.label
+          ? `${p.party.label} (${shortAddress(p.party.address)})`
+          : shortAddress(p.party.address);
+        lines.push(`  ${name}${p.party.kind === "store" ? " [store]" : ""}:`);
+        for (const d of p.changed) {
+          lines.push(`    ${d.token.symbol.padEnd(8)} ${d.deltaFormatted}${d.error ? " (?)" : ""}`);
+        }
+      }
+      lines.push("");
+    }
+  } else if (balanceDiff && balanceDiff.deltas.length > 0) {
+    const changed = balanceDiff.deltas.filter((d) => d.delta !== 0n || d.error);
     if (changed.length > 0) {
       lines.push("Balance Changes:");
       for (const d of changed) {
-        lines.push(`  ${d.token.symbol.padEnd(8)} ${d.deltaFormatted}`);
+        lines.push(`  ${d.token.symbol.padEnd(8)} ${d.deltaFormatted}${d.error ? " (?)" : ""}`);
       }
       lines.push("");
     }
   }
 
+  if (discoveredTokens && discoveredTokens.length > 0) {
+    const names = discoveredTokens.map(
+      (t) => `${t.symbol} (${shortAddress(t.metadata ?? t.coinType ?? "")})`,
+    );
+    lines.push(`Auto-tracked: ${names.join(", ")}`);
+    lines.push("");
+  }
+
+  if (guards && guards.length > 0) {
+    lines.push("Guards:");
+    for (const g of guards) {
+      lines.push(`  ${g.passed ? "ok  " : "FAIL"}  ${g.message} (actual ${g.actual})`);
+    }
+    lines.push("");
+  }
+
+  if (balanceDiff?.errors && balanceDiff.errors.length > 0) {
+    lines.push("Balance Read Errors (deltas marked (?) are unreliable):");
+    for (const e of balanceDiff.errors) {
+      lines.push(`  ${e.token.padEnd(8)} ${shortAddress(e.owner)}: ${e.message}`);
+    }
+    lines.push("");
+  }
+
   if (simulation.events.length > 0) {
     lines.push(`Events (${simulation.events.length}):`);
     for (const evt of simulation.events.slice(0, 10)) {
@@ -61,13 +131,17 @@ export function formatComposedSummary(
   if (errors.length > 0) {
     lines.push("Errors:");
     for (const err of errors) {
-      lines.push(`  [${err.code}] ${err.title}`);
+      const at = err.stepLabel ? ` (step "${err.stepLabel}")` : "";
+      lines.push(`  [${err.code}] ${err.title}${at}`);
       lines.push(`    ${err.suggestion}`);
     }
     lines.push("");
   }
 
-  if (simulation.success) {
+  const failedGuards = guards?.filter((g) => !g.passed).length ?? 0;
+  if (simulation.success && failedGuards > 0) {
+    lines.push(`Result: GUARDS FAILED (${failedGuards}) \u2014 execute() will refuse`);
+  } else if (simulation.success) {
     lines.push("Result: SIMULATION PASSED \u2014 safe to execute");
   } else {
     lines.push(`Result: SIMULATION FAILED (${errors.length} error(s))`);
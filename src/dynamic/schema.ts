@@ -0,0 +1,758 @@
+import type { DynamicPlanTemplateJSON } from "./types.js";
+
+// ── JSON Schema ───────────────────────────────────────────────────
+
+const FUNCTION_ID_PATTERN =
+  "^0x[a-fA-F0-9]+::[a-zA-Z_][a-zA-Z0-9_]*::[a-zA-Z_][a-zA-Z0-9_]*$";
+
+const INTEGER_TYPES = ["u8", "u16", "u32", "u64", "u128", "u256"] as const;
+const STRING_TYPES = ["address", "object", "string", "bytes"] as const;
+const REF_MODES = ["move", "copy", "borrow", "borrow_mut"] as const;
+
+function callStepSchema(argRef: string) {
+  return {
+    type: "object",
+    required: ["label", "function", "args"],
+    additionalProperties: false,
+    properties: {
+      label: { type: "string", minLength: 1, description: "Unique step identifier. Used by ref args to wire return values between steps." },
+      function: { type: "string", pattern: FUNCTION_ID_PATTERN, description: "Fully qualified Move function: {address}::{module}::{function}" },
+      typeArguments: { type: "array", items: { type: "string" }, description: 'Move type arguments (e.g. ["0x1::fungible_asset::Metadata"]). Omit if none.' },
+      args: {
+        type: "array",
+        description: "Function arguments in parameter order.",
+        items: { $ref: argRef },
+      },
+    },
+  } as const;
+}
+
+/** JSON Schema (draft 2020-12) for `DynamicPlanJSON` / `DynamicPlanTemplateJSON` */
+export const DYNAMIC_PLAN_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: "https://github.com/seammoney/tx-composer/dynamic-plan.schema.json",
+  title: "DynamicPlanJSON",
+  type: "object",
+  required: ["steps"],
+  additionalProperties: false,
+  properties: {
+    tokens: {
+      type: "array",
+      description: "Tokens to track balance changes for. Optional but recommended. A bare metadata address or coin type is resolved from chain (symbol, decimals).",
+      items: {
+        oneOf: [
+          { type: "string", description: 'FA metadata address or coin type, e.g. "0xa" or "0x1::aptos_coin::AptosCoin"' },
+          {
+            type: "object",
+            required: ["symbol", "decimals"],
+            anyOf: [{ required: ["metadata"] }, { required: ["coinType"] }],
+            properties: {
+              symbol: { type: "string", description: 'Human-readable token symbol (e.g. "USDC")' },
+              metadata: { type: "string", description: "On-chain fungible asset metadata address (0x-prefixed, 64 hex chars)" },
+              coinType: { type: "string", description: 'Legacy coin type (e.g. "0x1::aptos_coin::AptosCoin"). With metadata too, the coin and its paired FA are summed.' },
+              decimals: { type: "integer", minimum: 0, description: "Token decimal places (e.g. 6 for USDC, 8 for APT). Checked against chain." },
+              name: { type: "string" },
+              iconUri: { type: "string" },
+            },
+          },
+        ],
+      },
+    },
+    tracking: {
+      type: "object",
+      description: "Other parties to report token deltas for, besides the sender.",
+      additionalProperties: false,
+      properties: {
+        owners: {
+          type: "array",
+          description: "Accounts whose primary stores / coin stores are tracked (e.g. payees).",
+          items: { type: "string" },
+        },
+        stores: {
+          type: "array",
+          description: "Explicit fungible store objects (secondary or protocol-owned stores).",
+          items: {
+            type: "object",
+            required: ["address"],
+            additionalProperties: false,
+            properties: {
+              address: { type: "string" },
+              label: { type: "string", description: 'Display name, e.g. "LP vault"' },
+            },
+          },
+        },
+      },
+    },
+    signers: {
+      type: "array",
+      description: 'Secondary signer addresses, making this a multi-agent transaction. Each must sign at execute time. The first is { "kind": "signer", "index": 1 }.',
+      items: { type: "string" },
+    },
+    guards: {
+      type: "array",
+      description: "Post-conditions checked against the simulation. If any fails, the result is unsuccessful and execute() refuses to submit.",
+      items: {
+        oneOf: [
+          {
+            type: "object",
+            required: ["kind", "token", "amount"],
+            additionalProperties: false,
+            properties: {
+              kind: { enum: ["min_delta", "max_delta"], description: "Minimum / maximum balance change (negative for outflows)." },
+              token: { type: "string", description: "Tracked token symbol, FA metadata address or coin type." },
+              amount: { type: "string", description: 'Human amount ("995.5"), or base units with an n suffix ("995500000n").' },
+              owner: { type: "string", description: "Account whose balance is checked (default: the sender)." },
+              onChain: { type: "boolean", description: "min_delta only: also assert in the script, so execution reverts if the sender receives less." },
+            },
+          },
+          {
+            type: "object",
+            required: ["kind", "gasUnits"],
+            additionalProperties: false,
+            properties: {
+              kind: { const: "max_gas" },
+              gasUnits: { type: "integer", minimum: 1 },
+            },
+          },
+          {
+            type: "object",
+            required: ["kind", "type"],
+            additionalProperties: false,
+            properties: {
+              kind: { const: "event" },
+              type: { type: "string", description: 'Event type that must be emitted, e.g. "0x1::fungible_asset::Deposit".' },
+              minCount: { type: "integer", minimum: 1 },
+            },
+          },
+        ],
+      },
+    },
+    params: {
+      type: "object",
+      description: "Named, typed plan parameters referenced by { kind: \"param\" } args.",
+      additionalProperties: {
+        type: "object",
+        required: ["type"],
+        properties: {
+          type: { type: "string", description: 'Move type, e.g. "u64", "address", "vector<address>"' },
+          description: { type: "string" },
+          default: { description: 'Default value. "$sender" resolves to the client address.' },
+        },
+      },
+    },
+    subPlans: {
+      type: "object",
+      description: "Reusable named step groups, expanded wherever a step has { use: <name> }.",
+      additionalProperties: {
+        type: "object",
+        required: ["steps"],
+        additionalProperties: false,
+        properties: {
+          inputs: { type: "array", items: { type: "string" }, description: "Names the caller must supply; referenced inside as { kind: \"input\" }." },
+          steps: { type: "array", minItems: 1, items: callStepSchema("#/$defs/subPlanArg") },
+          outputs: {
+            type: "array",
+            description: "Values exposed to later steps as ref(<use label>, outputIndex).",
+            items: {
+              type: "object",
+              required: ["step", "returnIndex"],
+              properties: {
+                name: { type: "string" },
+                step: { type: "string", description: "Inner step label." },
+                returnIndex: { type: "integer", minimum: 0 },
+              },
+            },
+          },
+        },
+      },
+    },
+    steps: {
+      type: "array",
+      minItems: 1,
+      description: "Ordered list of Move function calls to compose atomically.",
+      items: {
+        oneOf: [
+          callStepSchema("#/$defs/stepArg"),
+          {
+            type: "object",
+            required: ["label", "use"],
+            additionalProperties: false,
+            properties: {
+              label: { type: "string", minLength: 1, description: "Unique label. Inner steps are labelled <label>.<inner>." },
+              use: { type: "string", description: "Name of a sub-plan in subPlans, or a built-in (withdraw_from_wallet, deposit_to_wallet)." },
+              inputs: { type: "object", additionalProperties: { $ref: "#/$defs/stepArg" } },
+            },
+          },
+        ],
+      },
+    },
+  },
+  $defs: {
+    stepArg: {
+      oneOf: [
+        {
+          type: "object",
+          required: ["kind"],
+          properties: {
+            kind: { const: "signer" },
+            index: { type: "integer", minimum: 0, description: "Secondary signer (1 = signers[0]). Omit, or 0, for the sender." },
+          },
+          description: "Transaction signer. Use for &signer parameters only.",
+        },
+        {
+          type: "object",
+          required: ["kind", "value"],
+          properties: {
+            kind: { const: "literal" },
+            value: { $ref: "#/$defs/literalValue" },
+          },
+          description: "Literal value. Strings ending in 'n' are parsed as bigint (e.g. \"1000000n\"). Use for address, u64, u128, bool, etc.",
+        },
+        {
+          type: "object",
+          required: ["kind", "step", "returnIndex"],
+          properties: {
+            kind: { const: "ref" },
+            step: { type: "string", description: "Label of the prior step whose return value to use." },
+            returnIndex: { type: "integer", minimum: 0, description: "Index into the step's return values (0-based)." },
+            mode: { type: "string", enum: [...REF_MODES], default: "move", description: 'How to pass the value. Default "move" consumes it.' },
+          },
+          description: "Reference to a prior step's return value. This is how you wire outputs between steps.",
+        },
+        {
+          type: "object",
+          required: ["kind", "name"],
+          properties: {
+            kind: { const: "param" },
+            name: { type: "string", description: "Name of a declared plan parameter." },
+          },
+          description: "Value of a plan parameter (templates only).",
+        },
+      ],
+    },
+    subPlanArg: {
+      oneOf: [
+        { $ref: "#/$defs/stepArg" },
+        {
+          type: "object",
+          required: ["kind", "name"],
+          properties: {
+            kind: { const: "input" },
+            name: { type: "string", description: "Name of a declared sub-plan input." },
+          },
+          description: "Value supplied by the step that uses the sub-plan.",
+        },
+      ],
+    },
+    literalValue: {
+      oneOf: [
+        { type: "string" },
+        { type: "number" },
+        { type: "boolean" },
+        {
+          type: "object",
+          required: ["type", "value"],
+          properties: {
+            type: { enum: [...INTEGER_TYPES] },
+            value: { oneOf: [{ type: "string", pattern: "^\\d+n?$" }, { type: "integer", minimum: 0 }] },
+          },
+        },
+        {
+          type: "object",
+          required: ["type", "value"],
+          properties: {
+            type: { enum: [...STRING_TYPES] },
+            value: { type: "string" },
+          },
+        },
+        {
+          type: "object",
+          required: ["type", "elementType", "items"],
+          properties: {
+            type: { const: "vector" },
+            elementType: { type: "string" },
+            items: { type: "array", items: { $ref: "#/$defs/literalValue" } },
+          },
+        },
+        {
+          type: "object",
+          required: ["type", "elementType", "value"],
+          properties: {
+            type: { const: "option" },
+            elementType: { type: "string" },
+            value: { oneOf: [{ type: "null" }, { $ref: "#/$defs/literalValue" }] },
+          },
+        },
+      ],
+    },
+  },
+} as const;
+
+// ── Tool Definitions ──────────────────────────────────────────────
+
+export const COMPOSE_TRANSACTION_TOOL_NAME = "compose_transaction";
+
+const COMPOSE_TRANSACTION_DESCRIPTION =
+  "Compose Aptos Move function calls into one atomic transaction and simulate it. " +
+  "Each step calls {address}::{module}::{function}; wire return values between steps with " +
+  '{ "kind": "ref", "step": "<label>", "returnIndex": N }. Use { "kind": "signer" } only for ' +
+  "&signer parameters, and consume every non-droppable return (e.g. FungibleAsset) in a later step.";
+
+/** Schema without the top-level `$schema` / `$id` keys, which tool APIs reject */
+function toolInputSchema(): Record<string, unknown> {
+  const { $schema: _schema, $id: _id, ...rest } = DYNAMIC_PLAN_SCHEMA;
+  return rest;
+}
+
+/** Tool definition in the Anthropic Messages API format */
+export function anthropicToolDefinition(): {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+} {
+  return {
+    name: COMPOSE_TRANSACTION_TOOL_NAME,
+    description: COMPOSE_TRANSACTION_DESCRIPTION,
+    input_schema: toolInputSchema(),
+  };
+}
+
+/** Tool definition in the OpenAI function-calling format */
+export function openAIToolDefinition(): {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+} {
+  return {
+    type: "function",
+    function: {
+      name: COMPOSE_TRANSACTION_TOOL_NAME,
+      description: COMPOSE_TRANSACTION_DESCRIPTION,
+      parameters: toolInputSchema(),
+    },
+  };
+}
+
+// ── Runtime Validation ────────────────────────────────────────────
+
+export interface PlanSchemaError {
+  /** Location of the problem, e.g. "$.steps[1].args[0].returnIndex" */
+  path: string;
+  message: string;
+}
+
+export type PlanValidationResult =
+  | { valid: true; plan: DynamicPlanTemplateJSON }
+  | { valid: false; errors: PlanSchemaError[] };
+
+type Obj = Record<string, unknown>;
+
+function isObject(v: unknown): v is Obj {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function describe(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  return typeof v;
+}
+
+function checkLiteralValue(v: unknown, path: string, errors: PlanSchemaError[]): void {
+  if (typeof v === "string" || typeof v === "boolean") return;
+  if (typeof v === "number") {
+    if (!Number.isFinite(v)) errors.push({ path, message: "number must be finite" });
+    return;
+  }
+  if (!isObject(v)) {
+    errors.push({ path, message: `expected string, number, boolean or typed literal, got ${describe(v)}` });
+    return;
+  }
+
+  const type = v.type;
+  if ((INTEGER_TYPES as readonly unknown[]).includes(type)) {
+    const val = v.value;
+    const ok =
+      (typeof val === "string" && /^\d+n?$/.test(val)) ||
+      (typeof val === "number" && Number.isSafeInteger(val) && val >= 0);
+    if (!ok) {
+      errors.push({ path: `${path}.value`, message: `expected a non-negative integer (number or decimal string) for ${String(type)}` });
+    }
+    return;
+  }
+  if ((STRING_TYPES as readonly unknown[]).includes(type)) {
+    if (typeof v.value !== "string") {
+      errors.push({ path: `${path}.value`, message: `expected string for ${String(type)}, got ${describe(v.value)}` });
+    }
+    return;
+  }
+  if (type === "vector" || type === "option") {
+    if (typeof v.elementType !== "string") {
+      errors.push({ path: `${path}.elementType`, message: "expected a Move type string" });
+    }
+    if (type === "vector") {
+      if (!Array.isArray(v.items)) {
+        errors.push({ path: `${path}.items`, message: `expected array, got ${describe(v.items)}` });
+      } else {
+        v.items.forEach((item, i) => checkLiteralValue(item, `${path}.items[${i}]`, errors));
+      }
+    } else if (!("value" in v)) {
+      errors.push({ path: `${path}.value`, message: "required (use null for none)" });
+    } else if (v.value !== null) {
+      checkLiteralValue(v.value, `${path}.value`, errors);
+    }
+    return;
+  }
+  errors.push({
+    path: `${path}.type`,
+    message: `unknown literal type ${JSON.stringify(type)} — expected one of ${[...INTEGER_TYPES, ...STRING_TYPES, "vector", "option"].join(", ")}`,
+  });
+}
+
+function checkArg(
+  a: unknown,
+  path: string,
+  errors: PlanSchemaError[],
+  allowInput = false,
+): void {
+  if (!isObject(a)) {
+    errors.push({ path, message: `expected object, got ${describe(a)}` });
+    return;
+  }
+  switch (a.kind) {
+    case "signer":
+      if (a.index !== undefined && (!Number.isInteger(a.index) || (a.index as number) < 0)) {
+        errors.push({ path: `${path}.index`, message: "expected a non-negative integer (0 = the sender)" });
+      }
+      return;
+    case "literal":
+      if (!("value" in a)) {
+        errors.push({ path: `${path}.value`, message: "required" });
+      } else {
+        checkLiteralValue(a.value, `${path}.value`, errors);
+      }
+      return;
+    case "ref":
+      if (typeof a.step !== "string") {
+        errors.push({ path: `${path}.step`, message: `expected string, got ${describe(a.step)}` });
+      }
+      if (typeof a.returnIndex !== "number" || !Number.isInteger(a.returnIndex) || a.returnIndex < 0) {
+        errors.push({ path: `${path}.returnIndex`, message: "expected a non-negative integer" });
+      }
+      if (a.mode !== undefined && !(REF_MODES as readonly unknown[]).includes(a.mode)) {
+        errors.push({ path: `${path}.mode`, message: `expected one of ${REF_MODES.join(", ")}` });
+      }
+      return;
+    case "param":
+      if (typeof a.name !== "string") {
+        errors.push({ path: `${path}.name`, message: `expected string, got ${describe(a.name)}` });
+      }
+      return;
+    case "input":
+      if (!allowInput) {
+        errors.push({ path: `${path}.kind`, message: '"input" is only valid inside subPlans' });
+      } else if (typeof a.name !== "string") {
+        errors.push({ path: `${path}.name`, message: `expected string, got ${describe(a.name)}` });
+      }
+      return;
+    default:
+      errors.push({
+        path: `${path}.kind`,
+        message: `expected "signer", "literal", "ref"${allowInput ? ', "param" or "input"' : ' or "param"'}, got ${JSON.stringify(a.kind)}`,
+      });
+  }
+}
+
+function checkCallStep(
+  s: Obj,
+  path: string,
+  errors: PlanSchemaError[],
+  allowInput: boolean,
+): void {
+  for (const key of Object.keys(s)) {
+    if (!["label", "function", "typeArguments", "args"].includes(key)) {
+      errors.push({ path: `${path}.${key}`, message: "unknown property" });
+    }
+  }
+  if (typeof s.function !== "string" || !new RegExp(FUNCTION_ID_PATTERN).test(s.function)) {
+    errors.push({ path: `${path}.function`, message: 'expected "0xaddr::module::function"' });
+  }
+  if (s.typeArguments !== undefined) {
+    if (!Array.isArray(s.typeArguments) || s.typeArguments.some((t) => typeof t !== "string")) {
+      errors.push({ path: `${path}.typeArguments`, message: "expected an array of Move type strings" });
+    }
+  }
+  if (!Array.isArray(s.args)) {
+    errors.push({ path: `${path}.args`, message: s.args === undefined ? "required" : `expected array, got ${describe(s.args)}` });
+  } else {
+    s.args.forEach((a, j) => checkArg(a, `${path}.args[${j}]`, errors, allowInput));
+  }
+}
+
+function checkUseStep(s: Obj, path: string, errors: PlanSchemaError[]): void {
+  for (const key of Object.keys(s)) {
+    if (!["label", "use", "inputs"].includes(key)) {
+      errors.push({ path: `${path}.${key}`, message: "unknown property" });
+    }
+  }
+  if (typeof s.use !== "string") {
+    errors.push({ path: `${path}.use`, message: `expected string, got ${describe(s.use)}` });
+  }
+  if (s.inputs !== undefined) {
+    if (!isObject(s.inputs)) {
+      errors.push({ path: `${path}.inputs`, message: `expected object, got ${describe(s.inputs)}` });
+    } else {
+      for (const [name, a] of Object.entries(s.inputs)) {
+        checkArg(a, `${path}.inputs.${name}`, errors);
+      }
+    }
+  }
+}
+
+/** Top-level steps may be calls or `use` steps; sub-plan steps are calls that may take inputs */
+function checkSteps(
+  steps: unknown,
+  path: string,
+  errors: PlanSchemaError[],
+  inSubPlan: boolean,
+): void {
+  if (!Array.isArray(steps)) {
+    errors.push({ path, message: steps === undefined ? "required" : `expected array, got ${describe(steps)}` });
+    return;
+  }
+  if (steps.length === 0) {
+    errors.push({ path, message: "must contain at least one step" });
+    return;
+  }
+
+  const seen = new Set<string>();
+  steps.forEach((s, i) => {
+    const stepPath = `${path}[${i}]`;
+    if (!isObject(s)) {
+      errors.push({ path: stepPath, message: `expected object, got ${describe(s)}` });
+      return;
+    }
+    if (typeof s.label !== "string" || s.label.length === 0) {
+      errors.push({ path: `${stepPath}.label`, message: "expected a non-empty string" });
+    } else if (seen.has(s.label)) {
+      errors.push({ path: `${stepPath}.label`, message: `duplicate step label "${s.label}"` });
+    } else {
+      seen.add(s.label);
+    }
+    if ("use" in s && !inSubPlan) {
+      checkUseStep(s, stepPath, errors);
+    } else {
+      checkCallStep(s, stepPath, errors, inSubPlan);
+    }
+  });
+}
+
+function checkSubPlan(def: unknown, path: string, errors: PlanSchemaError[]): void {
+  if (!isObject(def)) {
+    errors.push({ path, message: `expected object, got ${describe(def)}` });
+    return;
+  }
+  for (const key of Object.keys(def)) {
+    if (!["inputs", "steps", "outputs"].includes(key)) {
+      errors.push({ path: `${path}.${key}`, message: "unknown property" });
+    }
+  }
+  if (def.inputs !== undefined) {
+    if (!Array.isArray(def.inputs) || def.inputs.some((n) => typeof n !== "string")) {
+      errors.push({ path: `${path}.inputs`, message: "expected an array of input names" });
+    }
+  }
+  checkSteps(def.steps, `${path}.steps`, errors, true);
+  if (def.outputs !== undefined) {
+    if (!Array.isArray(def.outputs)) {
+      errors.push({ path: `${path}.outputs`, message: `expected array, got ${describe(def.outputs)}` });
+    } else {
+      def.outputs.forEach((o, i) => {
+        const outPath = `${path}.outputs[${i}]`;
+        if (!isObject(o) || typeof o.step !== "string") {
+          errors.push({ path: `${outPath}.step`, message: "expected an inner step label" });
+        } else if (typeof o.returnIndex !== "number" || !Number.isInteger(o.returnIndex) || o.returnIndex < 0) {
+          errors.push({ path: `${outPath}.returnIndex`, message: "expected a non-negative integer" });
+        }
+      });
+    }
+  }
+}
+
+const GUARD_PROPERTIES: Record<string, string[]> = {
+  min_delta: ["kind", "token", "amount", "owner", "onChain"],
+  max_delta: ["kind", "token", "amount", "owner"],
+  max_gas: ["kind", "gasUnits"],
+  event: ["kind", "type", "minCount"],
+};
+
+function checkGuardJSON(g: unknown, path: string, errors: PlanSchemaError[]): void {
+  if (!isObject(g)) {
+    errors.push({ path, message: `expected object, got ${describe(g)}` });
+    return;
+  }
+  const allowed = typeof g.kind === "string" ? GUARD_PROPERTIES[g.kind] : undefined;
+  if (!allowed) {
+    errors.push({ path: `${path}.kind`, message: `expected one of ${Object.keys(GUARD_PROPERTIES).join(", ")}` });
+    return;
+  }
+  for (const key of Object.keys(g)) {
+    if (!allowed.includes(key)) errors.push({ path: `${path}.${key}`, message: "unknown property" });
+  }
+
+  const positiveInt = (v: unknown) => typeof v === "number" && Number.isInteger(v) && v >= 1;
+  switch (g.kind) {
+    case "min_delta":
+    case "max_delta":
+      if (typeof g.token !== "string" || g.token.trim() === "") errors.push({ path: `${path}.token`, message: "expected a token symbol or id" });
+      if (typeof g.amount !== "string") errors.push({ path: `${path}.amount`, message: 'expected a string ("995.5" or "995500000n")' });
+      if (g.owner !== undefined && typeof g.owner !== "string") errors.push({ path: `${path}.owner`, message: "expected string" });
+      if (g.onChain !== undefined && typeof g.onChain !== "boolean") errors.push({ path: `${path}.onChain`, message: "expected boolean" });
+      break;
+    case "max_gas":
+      if (!positiveInt(g.gasUnits)) errors.push({ path: `${path}.gasUnits`, message: "expected a positive integer" });
+      break;
+    case "event":
+      if (typeof g.type !== "string") errors.push({ path: `${path}.type`, message: "expected string" });
+      if (g.minCount !== undefined && !positiveInt(g.minCount)) errors.push({ path: `${path}.minCount`, message: "expected a positive integer" });
+      break;
+  }
+}
+
+/** Push every schema problem in `input` to `errors`; a plan is one with none */
+function checkPlan(input: unknown, errors: PlanSchemaError[]): input is DynamicPlanTemplateJSON {
+  if (!isObject(input)) {
+    errors.push({ path: "$", message: `expected object, got ${describe(input)}` });
+    return false;
+  }
+
+  for (const key of Object.keys(input)) {
+    if (!["tokens", "tracking", "signers", "guards", "params", "subPlans", "steps"].includes(key)) {
+      errors.push({ path: `$.${key}`, message: "unknown property" });
+    }
+  }
+
+  if (input.tokens !== undefined) {
+    if (!Array.isArray(input.tokens)) {
+      errors.push({ path: "$.tokens", message: `expected array, got ${describe(input.tokens)}` });
+    } else {
+      input.tokens.forEach((t, i) => {
+        const path = `$.tokens[${i}]`;
+        if (typeof t === "string") {
+          if (t.trim() === "") errors.push({ path, message: "expected a metadata address or coin type" });
+          return;
+        }
+        if (!isObject(t)) {
+          errors.push({ path, message: `expected object or string, got ${describe(t)}` });
+          return;
+        }
+        if (typeof t.symbol !== "string") errors.push({ path: `${path}.symbol`, message: "expected string" });
+        if (t.metadata !== undefined && typeof t.metadata !== "string") errors.push({ path: `${path}.metadata`, message: "expected string" });
+        if (t.coinType !== undefined && typeof t.coinType !== "string") errors.push({ path: `${path}.coinType`, message: "expected string" });
+        if (t.metadata === undefined && t.coinType === undefined) {
+          errors.push({ path, message: "expected metadata and/or coinType" });
+        }
+        if (typeof t.decimals !== "number" || !Number.isInteger(t.decimals) || t.decimals < 0) {
+          errors.push({ path: `${path}.decimals`, message: "expected a non-negative integer" });
+        }
+      });
+    }
+  }
+
+  if (input.tracking !== undefined) {
+    if (!isObject(input.tracking)) {
+      errors.push({ path: "$.tracking", message: `expected object, got ${describe(input.tracking)}` });
+    } else {
+      const { owners, stores, ...rest } = input.tracking;
+      for (const key of Object.keys(rest)) {
+        errors.push({ path: `$.tracking.${key}`, message: "unknown property" });
+      }
+      if (owners !== undefined) {
+        if (!Array.isArray(owners)) {
+          errors.push({ path: "$.tracking.owners", message: `expected array, got ${describe(owners)}` });
+        } else {
+          owners.forEach((o, i) => {
+            if (typeof o !== "string") errors.push({ path: `$.tracking.owners[${i}]`, message: "expected string" });
+          });
+        }
+      }
+      if (stores !== undefined) {
+        if (!Array.isArray(stores)) {
+          errors.push({ path: "$.tracking.stores", message: `expected array, got ${describe(stores)}` });
+        } else {
+          stores.forEach((st, i) => {
+            const path = `$.tracking.stores[${i}]`;
+            if (!isObject(st)) {
+              errors.push({ path, message: `expected object, got ${describe(st)}` });
+              return;
+            }
+            if (typeof st.address !== "string") errors.push({ path: `${path}.address`, message: "expected string" });
+            if (st.label !== undefined && typeof st.label !== "string") errors.push({ path: `${path}.label`, message: "expected string" });
+          });
+        }
+      }
+    }
+  }
+
+  if (input.signers !== undefined) {
+    if (!Array.isArray(input.signers)) {
+      errors.push({ path: "$.signers", message: `expected array, got ${describe(input.signers)}` });
+    } else {
+      input.signers.forEach((a, i) => {
+        if (typeof a !== "string") errors.push({ path: `$.signers[${i}]`, message: "expected string" });
+      });
+    }
+  }
+
+  if (input.guards !== undefined) {
+    if (!Array.isArray(input.guards)) {
+      errors.push({ path: "$.guards", message: `expected array, got ${describe(input.guards)}` });
+    } else {
+      input.guards.forEach((g, i) => checkGuardJSON(g, `$.guards[${i}]`, errors));
+    }
+  }
+
+  if (input.params !== undefined) {
+    if (!isObject(input.params)) {
+      errors.push({ path: "$.params", message: `expected object, got ${describe(input.params)}` });
+    } else {
+      for (const [name, decl] of Object.entries(input.params)) {
+        const path = `$.params.${name}`;
+        if (!isObject(decl) || typeof decl.type !== "string") {
+          errors.push({ path: `${path}.type`, message: "expected a Move type string" });
+        } else if (decl.default !== undefined && decl.default !== null) {
+          checkLiteralValue(decl.default, `${path}.default`, errors);
+        }
+      }
+    }
+  }
+
+  if (input.subPlans !== undefined) {
+    if (!isObject(input.subPlans)) {
+      errors.push({ path: "$.subPlans", message: `expected object, got ${describe(input.subPlans)}` });
+    } else {
+      for (const [name, def] of Object.entries(input.subPlans)) {
+        checkSubPlan(def, `$.subPlans.${name}`, errors);
+      }
+    }
+  }
+
+  checkSteps(input.steps, "$.steps", errors, false);
+  return errors.length === 0;
+}
+
+/**
+ * Validate untrusted input (e.g. agent output) against the plan schema.
+ * Returns every problem with its path instead of throwing on the first one.
+ */
+export function validatePlanJSON(input: unknown): PlanValidationResult {
+  const errors: PlanSchemaError[] = [];
+  return checkPlan(input, errors) ? { valid: true, plan: input } : { valid: false, errors };
+}
+
+/** Format schema errors as one message per line */
+export function formatPlanSchemaErrors(errors: PlanSchemaError[]): string {
+  return errors.map((e) => `${e.path}: ${e.message}`).join("\n  ");
+}
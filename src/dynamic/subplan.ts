@@ -0,0 +1,121 @@
+import { arg } from "./types.js";
+import type { ComposerStep, StepArg, SubPlan } from "./types.js";
+
+// ── Built-in Sub-Plans ────────────────────────────────────────────
+
+/**
+ * Built-ins mirroring `withdrawFromWallet` / `depositToWallet` from
+ * `composer/helpers.ts`, usable by name from `DynamicPlanJSON`.
+ */
+export const BUILTIN_SUB_PLANS: Record<string, SubPlan> = {
+  /** Inputs: metadata, amount. Output 0: the withdrawn FungibleAsset. */
+  withdraw_from_wallet: {
+    inputs: ["metadata", "amount"],
+    steps: [
+      {
+        label: "withdraw",
+        function: "0x1::primary_fungible_store::withdraw",
+        typeArguments: ["0x1::fungible_asset::Metadata"],
+        args: [arg.signer(), arg.input("metadata"), arg.input("amount")],
+      },
+    ],
+    outputs: [{ name: "fa", step: "withdraw", returnIndex: 0 }],
+  },
+
+  /** Inputs: recipient, fa. No outputs. */
+  deposit_to_wallet: {
+    inputs: ["recipient", "fa"],
+    steps: [
+      {
+        label: "deposit",
+        function: "0x1::primary_fungible_store::deposit",
+        args: [arg.input("recipient"), arg.input("fa")],
+      },
+    ],
+    outputs: [],
+  },
+};
+
+// ── Expansion ─────────────────────────────────────────────────────
+
+export interface ExpandedSubPlan {
+  steps: Array<{ label: string; step: ComposerStep }>;
+  /** Declared outputs, rewritten to the namespaced step labels */
+  outputs: Array<{ step: string; returnIndex: number }>;
+}
+
+/**
+ * Expand a sub-plan into flat steps labelled `<label>.<innerLabel>`.
+ * Inputs are substituted into `arg.input()` placeholders; refs between inner
+ * steps are rewritten to the namespaced labels.
+ */
+export function expandSubPlan(
+  label: string,
+  plan: SubPlan,
+  inputs: Record<string, StepArg>,
+): ExpandedSubPlan {
+  for (const name of plan.inputs) {
+    if (!(name in inputs)) {
+      throw new Error(`Sub-plan "${label}": missing input "${name}"`);
+    }
+  }
+  for (const name of Object.keys(inputs)) {
+    if (!plan.inputs.includes(name)) {
+      throw new Error(
+        `Sub-plan "${label}": unknown input "${name}". Expected: [${plan.inputs.join(", ")}]`,
+      );
+    }
+  }
+
+  const namespaced = (inner: string) => `${label}.${inner}`;
+  const seen = new Set<string>();
+  const steps: ExpandedSubPlan["steps"] = [];
+
+  for (const inner of plan.steps) {
+    if (seen.has(inner.label)) {
+      throw new Error(`Sub-plan "${label}": duplicate step label "${inner.label}"`);
+    }
+
+    const args = inner.args.map((a): StepArg => {
+      if (a.kind === "input") {
+        const value = inputs[a.name];
+        if (!value) {
+          throw new Error(
+            `Sub-plan "${label}" step "${inner.label}": undeclared input "${a.name}"`,
+          );
+        }
+        return value;
+      }
+      if (a.kind === "ref") {
+        if (!seen.has(a.step)) {
+          throw new Error(
+            `Sub-plan "${label}" step "${inner.label}": ref to "${a.step}" must name an earlier step of the sub-plan — pass outer values as inputs`,
+          );
+        }
+        return { ...a, step: namespaced(a.step) };
+      }
+      return a;
+    });
+
+    seen.add(inner.label);
+    steps.push({
+      label: namespaced(inner.label),
+      step: {
+        function: inner.function,
+        typeArguments: inner.typeArguments,
+        args,
+      },
+    });
+  }
+
+  const outputs = plan.outputs.map((o, i) => {
+    if (!seen.has(o.step)) {
+      throw new Error(
+        `Sub-plan "${label}": output ${o.name ?? i} references unknown step "${o.step}"`,
+      );
+    }
+    return { step: namespaced(o.step), returnIndex: o.returnIndex };
+  });
+
+  return { steps, outputs };
+}
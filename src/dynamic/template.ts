@@ -0,0 +1,127 @@
+import { TypeTagStruct, TypeTagVector } from "@aptos-labs/ts-sdk";
+import type {
+  DynamicPlanTemplateJSON,
+  LiteralValue,
+  StepArgJSON,
+  TemplateParamValue,
+} from "./types.js";
+import { deserializeLiteral, isTypedLiteral } from "./literals.js";
+import { checkLiteral, parseParamType } from "./move-types.js";
+import { errorMessage } from "../core/util.js";
+
+/** Default value that resolves to the composer's client address */
+export const SENDER_PLACEHOLDER = "$sender";
+
+// ── Coercion ──────────────────────────────────────────────────────
+
+/**
+ * Turn a caller-supplied value into a literal for `paramType`. Arrays become
+ * typed vectors and null becomes `none` so callers don't need the typed form.
+ */
+function coerceParam(value: TemplateParamValue, paramType: string): LiteralValue {
+  const { tag } = parseParamType(paramType);
+
+  if (Array.isArray(value)) {
+    if (!(tag instanceof TypeTagVector)) {
+      throw new Error(`an array was supplied for non-vector type "${paramType}"`);
+    }
+    const elementType = tag.value.toString();
+    return {
+      type: "vector",
+      elementType,
+      items: value.map((item) => coerceParam(item, elementType)),
+    };
+  }
+
+  if (tag instanceof TypeTagStruct && tag.isOption()) {
+    const elementType = tag.value.typeArgs[0].toString();
+    if (value === null) return { type: "option", elementType, value: null };
+    const literal = deserializeLiteral(value);
+    if (isTypedLiteral(literal) && literal.type === "option") return literal;
+    return { type: "option", elementType, value: coerceParam(value, elementType) };
+  }
+
+  if (value === null) {
+    throw new Error(`null is only valid for Option types, not "${paramType}"`);
+  }
+  return deserializeLiteral(value);
+}
+
+// ── Resolution ────────────────────────────────────────────────────
+
+/**
+ * Validate supplied parameter values against the template's declarations and
+ * return the final value for every declared parameter.
+ * Throws with every problem listed if any parameter is missing or invalid.
+ */
+export function resolveTemplateParams(
+  template: DynamicPlanTemplateJSON,
+  params: Record<string, TemplateParamValue>,
+  sender: string,
+): Map<string, LiteralValue> {
+  const problems: string[] = [];
+  const resolved = new Map<string, LiteralValue>();
+  const declared = template.params ?? {};
+
+  for (const name of Object.keys(params)) {
+    if (!(name in declared)) {
+      problems.push(`Unknown parameter "${name}"`);
+    }
+  }
+
+  for (const [name, decl] of Object.entries(declared)) {
+    const { tag } = parseParamType(decl.type);
+    if (!tag) {
+      problems.push(`Parameter "${name}": invalid type "${decl.type}"`);
+      continue;
+    }
+
+    let raw: TemplateParamValue | undefined = params[name];
+    if (raw === undefined) {
+      if (decl.default === undefined) {
+        problems.push(`Missing required parameter "${name}" (${decl.type})`);
+        continue;
+      }
+      raw = decl.default === SENDER_PLACEHOLDER ? sender : decl.default;
+    }
+
+    try {
+      const value = coerceParam(raw, decl.type);
+      const reason = checkLiteral(value, tag);
+      if (reason) {
+        problems.push(`Parameter "${name}": ${reason} (type "${decl.type}")`);
+        continue;
+      }
+      resolved.set(name, value);
+    } catch (e) {
+      const msg = errorMessage(e);
+      problems.push(`Parameter "${name}": ${msg}`);
+    }
+  }
+
+  // Every param reference in the steps must be declared
+  const checkRefs = (where: string, args: StepArgJSON[]) => {
+    for (const a of args) {
+      if (a.kind === "param" && !(a.name in declared)) {
+        problems.push(`${where} references undeclared parameter "${a.name}"`);
+      }
+    }
+  };
+  for (const step of template.steps) {
+    checkRefs(
+      `Step "${step.label}"`,
+      "use" in step ? Object.values(step.inputs ?? {}) : step.args,
+    );
+  }
+  for (const [name, def] of Object.entries(template.subPlans ?? {})) {
+    for (const step of def.steps) {
+      checkRefs(`Sub-plan "${name}" step "${step.label}"`, step.args);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid template parameters:\n  ${problems.join("\n  ")}`);
+  }
+
+  return resolved;
+}
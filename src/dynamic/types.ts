@@ -1,5 +1,13 @@
-import type { AnyRawTransaction } from "@aptos-labs/ts-sdk";
-import type { TokenConfig, SimulationResult, ExecutionResult } from "../types.js";
+import type { Account, AnyRawTransaction } from "@aptos-labs/ts-sdk";
+import type {
+  KeyScheme,
+  SignTransactionFn,
+  TokenConfig,
+  TokenInput,
+  SimulationResult,
+  ExecutionResult,
+  ParsedEvent,
+} from "../types.js";
 import type { BalanceDiff, DiagnosedError } from "../simulation/types.js";
 import type { ValidationWarning } from "./validate.js";
 
@@ -7,15 +15,49 @@ import type { ValidationWarning } from "./validate.js";
 
 export type RefMode = "move" | "copy" | "borrow" | "borrow_mut";
 
+export type IntegerType = "u8" | "u16" | "u32" | "u64" | "u128" | "u256";
+
+/**
+ * Literal with an explicit Move type. Plain literals are converted using the
+ * function ABI; typed literals are serialized as-is, which is required for
+ * vectors and options whose element type can't be inferred from a JS value.
+ */
+export type TypedLiteral =
+  | { type: IntegerType; value: bigint }
+  | { type: "address" | "object" | "string"; value: string }
+  | { type: "bytes"; value: string }
+  | { type: "vector"; elementType: string; items: LiteralValue[] }
+  | { type: "option"; elementType: string; value: LiteralValue | null };
+
+export type LiteralValue = string | number | bigint | boolean | TypedLiteral;
+
 export type StepArg =
-  | { kind: "signer" }
-  | { kind: "literal"; value: string | number | bigint | boolean }
+  | { kind: "signer"; index?: number }
+  | { kind: "literal"; value: LiteralValue }
   | { kind: "ref"; step: string; returnIndex: number; mode: RefMode };
 
+function literalOf(item: LiteralValue | StepArg): LiteralValue {
+  if (typeof item === "object" && "kind" in item) {
+    if (item.kind !== "literal") {
+      throw new Error(`Vector and option elements must be literals, got ${item.kind}`);
+    }
+    return item.value;
+  }
+  return item;
+}
+
+const integer =
+  (type: IntegerType) =>
+  (value: bigint | number): StepArg => ({
+    kind: "literal",
+    value: { type, value: BigInt(value) },
+  });
+
 /** Ergonomic factories for building step arguments */
 export const arg = {
-  signer: (): StepArg => ({ kind: "signer" }),
-  literal: (value: string | number | bigint | boolean): StepArg => ({
+  /** Transaction signer: 0 is the sender, 1.. the composer's `addSigner` signers in order */
+  signer: (index = 0): StepArg => (index === 0 ? { kind: "signer" } : { kind: "signer", index }),
+  literal: (value: LiteralValue): StepArg => ({
     kind: "literal",
     value,
   }),
@@ -25,6 +67,50 @@ export const arg = {
     returnIndex,
     mode,
   }),
+  /** Sub-plan input placeholder (only valid inside a `SubPlan` step) */
+  input: (name: string): SubPlanArg => ({ kind: "input", name }),
+
+  // Typed literals
+  u8: integer("u8"),
+  u16: integer("u16"),
+  u32: integer("u32"),
+  u64: integer("u64"),
+  u128: integer("u128"),
+  u256: integer("u256"),
+  address: (value: string): StepArg => ({
+    kind: "literal",
+    value: { type: "address", value },
+  }),
+  /** `Object<T>` argument, passed as the object's address */
+  object: (value: string): StepArg => ({
+    kind: "literal",
+    value: { type: "object", value },
+  }),
+  /** `0x1::string::String` argument */
+  string: (value: string): StepArg => ({
+    kind: "literal",
+    value: { type: "string", value },
+  }),
+  /** `vector<u8>` argument from a 0x-prefixed hex string */
+  bytes: (hex: string): StepArg => ({
+    kind: "literal",
+    value: { type: "bytes", value: hex },
+  }),
+  /** `vector<T>` argument, e.g. `arg.vector("address", [a, b])` */
+  vector: (elementType: string, items: Array<LiteralValue | StepArg>): StepArg => ({
+    kind: "literal",
+    value: { type: "vector", elementType, items: items.map(literalOf) },
+  }),
+  /** `Option<T>` with a value */
+  some: (elementType: string, value: LiteralValue | StepArg): StepArg => ({
+    kind: "literal",
+    value: { type: "option", elementType, value: literalOf(value) },
+  }),
+  /** Empty `Option<T>` */
+  none: (elementType: string): StepArg => ({
+    kind: "literal",
+    value: { type: "option", elementType, value: null },
+  }),
 };
 
 // ── Step Definition ───────────────────────────────────────────────
@@ -35,8 +121,200 @@ export interface ComposerStep {
   args: StepArg[];
 }
 
+// ── Sub-Plans ─────────────────────────────────────────────────────
+
+/** Argument inside a sub-plan step — `input` is replaced by the caller's value on expansion */
+export type SubPlanArg = StepArg | { kind: "input"; name: string };
+
+export interface SubPlanStep {
+  label: string;
+  function: `${string}::${string}::${string}`;
+  typeArguments?: string[];
+  args: SubPlanArg[];
+}
+
+/** A sub-plan return value, exposed to later steps as `arg.ref(subPlanLabel, index)` */
+export interface SubPlanOutput {
+  name?: string;
+  step: string;
+  returnIndex: number;
+}
+
+/**
+ * Reusable group of steps. Expanded in place with labels namespaced as
+ * `<label>.<innerLabel>`; declared outputs are addressable by index.
+ */
+export interface SubPlan {
+  inputs: string[];
+  steps: SubPlanStep[];
+  outputs: SubPlanOutput[];
+}
+
+// ── Balance Tracking ──────────────────────────────────────────────
+
+/** An explicit fungible store object to track (secondary or protocol-owned) */
+export interface TrackedStore {
+  address: string;
+  /** Display name in the summary, e.g. "LP vault" */
+  label?: string;
+}
+
+/** Who `trackTokens` reports deltas for, besides the sender */
+export interface TrackingOptions {
+  /** Accounts whose primary stores / coin stores are tracked */
+  owners?: string[];
+  stores?: TrackedStore[];
+}
+
+// ── Signers ───────────────────────────────────────────────────────
+
+/**
+ * A secondary signer of a multi-agent transaction, reached with
+ * `arg.signer(n)`. `execute()` signs with `account` or calls `sign`;
+ * `publicKey` (or else `account`'s key) lets simulation check its signature.
+ */
+export interface SecondarySigner {
+  address: string;
+  publicKey?: string;
+  /** Scheme of `publicKey` (default: ed25519) */
+  scheme?: KeyScheme;
+  account?: Account;
+  sign?: SignTransactionFn;
+}
+
+// ── Guards ────────────────────────────────────────────────────────
+
+/**
+ * Token amount in a guard: base units as a bigint (or a "123n" string), or a
+ * human decimal string ("995.5") scaled by the token's decimals.
+ */
+export type GuardAmount = bigint | string;
+
+/**
+ * Post-condition checked against the simulation before `execute()`.
+ * `token` is a tracked token's symbol, metadata address or coin type;
+ * `owner` defaults to the sender and is tracked automatically.
+ */
+export type Guard =
+  | {
+      kind: "min_delta";
+      token: string;
+      amount: GuardAmount;
+      owner?: string;
+      /**
+       * Also compile the check into the script, so the transaction aborts
+       * on-chain if the sender's primary store receives less (FA tokens only).
+       */
+      onChain?: boolean;
+    }
+  | { kind: "max_delta"; token: string; amount: GuardAmount; owner?: string }
+  | { kind: "max_gas"; gasUnits: number }
+  | { kind: "event"; type: string; minCount?: number };
+
+export interface GuardResult {
+  guard: Guard;
+  passed: boolean;
+  /** What the simulation produced, e.g. "+998.120000" or "1843 gas" */
+  actual: string;
+  /** The condition checked, e.g. "USD1 delta >= +995.000000" */
+  message: string;
+}
+
+// ── Build Options ─────────────────────────────────────────────────
+
+export interface AutoSweepOptions {
+  /** Address that receives swept assets (default: the sender) */
+  recipient?: string;
+}
+
+export interface BuildOptions {
+  withFeePayer?: boolean;
+  /**
+   * Deposit every unconsumed `FungibleAsset` return via
+   * `primary_fungible_store::deposit` instead of leaving it to abort.
+   */
+  autoSweep?: boolean | AutoSweepOptions;
+  /** Sequence number to build at (default: the account's on-chain one) */
+  sequenceNumber?: bigint;
+}
+
+export interface SimulateOptions extends BuildOptions {
+  /**
+   * Attribute gas and events to steps by simulating each plan prefix
+   * (one extra simulation per step).
+   */
+  perStep?: boolean;
+  /**
+   * Fetch each write-set entry's pre-state from the node at the simulation's
+   * ledger version, so `simulation.writeSet` has before/after values.
+   */
+  preState?: boolean;
+  /**
+   * Resolve and track tokens whose stores the simulation wrote but that
+   * weren't passed to `trackTokens` (default: on when any token is tracked).
+   */
+  discoverTokens?: boolean;
+}
+
+// ── Drift ─────────────────────────────────────────────────────────
+
+/** How far a re-simulation may move from the original before it counts as drift */
+export interface DriftTolerance {
+  /** Max change of any token delta, in basis points of the original (default 50) */
+  deltaBps?: number;
+  /** Max gas increase, in basis points of the original (default 2000) */
+  gasBps?: number;
+}
+
+export interface ExecuteOptions {
+  /**
+   * Re-simulate just before signing and refuse if the outcome drifted past
+   * the tolerance; otherwise submit the freshly built transaction.
+   */
+  resimulate?: boolean | DriftTolerance;
+}
+
+export interface TokenDrift {
+  owner: string;
+  token: TokenConfig;
+  /** Delta in the original simulation */
+  simulated: bigint;
+  /** Delta in the re-simulation */
+  current: bigint;
+  difference: bigint;
+  differenceFormatted: string;
+  /** `difference` relative to `simulated` (Infinity if that was zero) */
+  differenceBps: number;
+  exceeded: boolean;
+}
+
+export interface DriftReport {
+  drifted: boolean;
+  /** One line per tolerance exceeded or outcome change */
+  reasons: string[];
+  /** Every tracked (owner, token) whose delta changed */
+  tokens: TokenDrift[];
+  gas: { simulated: number; current: number; differenceBps: number; exceeded: boolean };
+  /** Time between the two simulations */
+  elapsedMs: number;
+  /** The re-simulation; its `execute()` submits the fresh transaction */
+  fresh: ComposedResult;
+}
+
 // ── Simulation Result ─────────────────────────────────────────────
 
+export interface StepAttribution {
+  label: string;
+  /** "failed" marks the first step whose prefix aborts; later steps are "not_reached" */
+  status: "ok" | "failed" | "not_reached";
+  /** Gas delta against the previous prefix (approximate — see `attributeSteps`) */
+  gasUsed: number;
+  /** Events of the full simulation first emitted by this step */
+  events: ParsedEvent[];
+  /** VM status of the failing prefix */
+  vmStatus?: string;
+}
+
 export interface ComposedResult {
   success: boolean;
   simulation: SimulationResult;
@@ -45,15 +323,49 @@ export interface ComposedResult {
   errors: DiagnosedError[];
   warnings: ValidationWarning[];
   summary: string;
+  /** Labels of every built step, including auto-added sweep and on-chain guard steps */
   stepLabels: string[];
-  execute: () => Promise<ExecutionResult>;
+  /** Labels of the deposit steps added by `autoSweep` */
+  sweptSteps: string[];
+  /** Per-step gas and events, when simulated with `perStep: true` */
+  perStep: StepAttribution[] | null;
+  /** Tokens found in the simulation's store writes that weren't tracked (see `discoverTokens`) */
+  discoveredTokens: TokenConfig[];
+  /** Every guard's outcome; `success` is false if any failed */
+  guards: GuardResult[];
+  /**
+   * `hashPlan(composer.toJSON(), options)`: the plan's hash, combined with
+   * `withFeePayer` / `autoSweep` when those were set
+   */
+  planHash: string;
+  /** When the simulation ran (ms since epoch) */
+  simulatedAt: number;
+  /** Simulate the plan again and compare against this result */
+  resimulate: (tolerance?: DriftTolerance) => Promise<DriftReport>;
+  /**
+   * Submit the simulated transaction — rejects without submitting if a guard
+   * failed, or with `resimulate` if the outcome drifted.
+   */
+  execute: (options?: ExecuteOptions) => Promise<ExecutionResult>;
 }
 
 // ── JSON Schema (AI-agent input) ──────────────────────────────────
 
+/** Typed literal in JSON form — integers are decimal strings ("123" or "123n") or safe numbers */
+export type TypedLiteralJSON =
+  | { type: IntegerType; value: string | number }
+  | { type: "address" | "object" | "string"; value: string }
+  | { type: "bytes"; value: string }
+  | { type: "vector"; elementType: string; items: LiteralValueJSON[] }
+  | { type: "option"; elementType: string; value: LiteralValueJSON | null };
+
+export type LiteralValueJSON = string | number | boolean | TypedLiteralJSON;
+
 export type StepArgJSON =
-  | { kind: "signer" }
-  | { kind: "literal"; value: string | number | boolean }
+  | { kind: "signer"; index?: number }
+  | { kind: "literal"; value: LiteralValueJSON }
+  | { kind: "param"; name: string }
+  | { kind: "input"; name: string }
   | { kind: "ref"; step: string; returnIndex: number; mode?: RefMode };
 
 export interface DynamicStepJSON {
@@ -63,7 +375,57 @@ export interface DynamicStepJSON {
   args: StepArgJSON[];
 }
 
-export interface DynamicPlanJSON {
-  tokens?: TokenConfig[];
+/** Step that expands a named sub-plan (from `subPlans` or a built-in) */
+export interface DynamicSubPlanStepJSON {
+  label: string;
+  use: string;
+  inputs?: Record<string, StepArgJSON>;
+}
+
+export interface SubPlanJSON {
+  inputs?: string[];
+  /** Steps whose args may use `{ kind: "input", name }` */
   steps: DynamicStepJSON[];
+  outputs?: SubPlanOutput[];
 }
+
+export type GuardJSON =
+  | { kind: "min_delta"; token: string; amount: string; owner?: string; onChain?: boolean }
+  | { kind: "max_delta"; token: string; amount: string; owner?: string }
+  | { kind: "max_gas"; gasUnits: number }
+  | { kind: "event"; type: string; minCount?: number };
+
+export interface DynamicPlanJSON {
+  /** Token configs, or bare metadata addresses / coin types to resolve */
+  tokens?: TokenInput[];
+  /** Extra owners / stores to track `tokens` for */
+  tracking?: TrackingOptions;
+  /** Secondary signer addresses, reached with `{ kind: "signer", index: n }` (n >= 1) */
+  signers?: string[];
+  /** Post-conditions; amounts are strings ("995.5" human, "995500000n" base units) */
+  guards?: GuardJSON[];
+  subPlans?: Record<string, SubPlanJSON>;
+  steps: Array<DynamicStepJSON | DynamicSubPlanStepJSON>;
+}
+
+// ── Plan Templates ────────────────────────────────────────────────
+
+export interface PlanParamJSON {
+  /** Move type of the value, e.g. "u64", "address", "vector<address>" */
+  type: string;
+  description?: string;
+  /** Used when the caller omits the param. "$sender" resolves to the client address */
+  default?: LiteralValueJSON | null;
+}
+
+/** A plan whose step args can reference declared params via `{ kind: "param", name }` */
+export interface DynamicPlanTemplateJSON extends DynamicPlanJSON {
+  params?: Record<string, PlanParamJSON>;
+}
+
+/** Param value supplied to `fromTemplate` — arrays map to vectors, null to `none` */
+export type TemplateParamValue =
+  | LiteralValue
+  | LiteralValueJSON
+  | null
+  | TemplateParamValue[];
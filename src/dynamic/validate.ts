@@ -4,7 +4,14 @@ import type {
   MoveModule,
   MoveAbility,
 } from "@aptos-labs/ts-sdk";
-import type { ComposerStep } from "./types.js";
+import type { ComposerStep, StepArg, RefMode } from "./types.js";
+import {
+  checkLiteral,
+  parseParamType,
+  substituteTypeParams,
+  typesMatch,
+} from "./move-types.js";
+import { cacheErrorMap } from "../simulation/module-metadata.js";
 
 // ── Types ─────────────────────────────────────────────────────────
 
@@ -12,6 +19,7 @@ export interface StepValidation {
   label: string;
   function: string;
   abi: MoveFunction;
+  typeArguments: string[];
   signerCount: number;
   params: string[];
   returnTypes: string[];
@@ -83,6 +91,7 @@ async function fetchFunction(
       moduleName,
     });
     const abi = mod.abi;
+    cacheErrorMap(address, moduleName, mod.bytecode);
     if (!abi) {
       functionAbiCache.set(cacheKey, null);
       return undefined;
@@ -117,6 +126,7 @@ async function fetchModuleAbi(
       moduleName,
     });
     const abi = mod.abi;
+    cacheErrorMap(address, moduleName, mod.bytecode);
     if (abi) {
       moduleAbiCache.set(cacheKey, abi);
       for (const fn of abi.exposed_functions) {
@@ -128,15 +138,18 @@ async function fetchModuleAbi(
     return abi ?? undefined;
   } catch {
     moduleAbiCache.set(cacheKey, null);
+    cacheErrorMap(address, moduleName, null);
     return undefined;
   }
 }
 
-async function checkDropAbility(
+/** Whether a struct declares `ability`; null if its module or struct can't be found */
+async function hasAbility(
   aptos: Aptos,
   address: string,
   moduleName: string,
   structName: string,
+  ability: "copy" | "drop",
 ): Promise<boolean | null> {
   const moduleAbi = await fetchModuleAbi(aptos, address, moduleName);
   if (!moduleAbi) return null;
@@ -144,7 +157,245 @@ async function checkDropAbility(
   const struct = moduleAbi.structs.find((s) => s.name === structName);
   if (!struct) return null;
 
-  return struct.abilities.includes("drop" as MoveAbility);
+  return struct.abilities.includes(ability as MoveAbility);
+}
+
+/** Primitives and vectors of copyable types have `copy`; structs are looked up */
+async function typeHasCopy(aptos: Aptos, typeStr: string): Promise<boolean | null> {
+  const t = typeStr.trim();
+  if (t.startsWith("vector<") && t.endsWith(">")) {
+    return typeHasCopy(aptos, t.slice("vector<".length, -1));
+  }
+  if (!isStructType(t)) return true;
+  const structId = parseStructId(t);
+  if (!structId) return null;
+  return hasAbility(aptos, structId[0], structId[1], structId[2], "copy");
+}
+
+// ── Argument Type Checking ────────────────────────────────────────
+
+function checkArgType(
+  label: string,
+  index: number,
+  a: StepArg,
+  paramType: string,
+  typeArguments: string[],
+  stepOrder: Map<string, number>,
+  validated: Map<string, StepValidation>,
+): ValidationWarning | null {
+  const param = parseParamType(substituteTypeParams(paramType, typeArguments));
+
+  if (a.kind === "literal") {
+    if (!param.tag) return null;
+    if (param.reference !== "none") {
+      return {
+        stepLabel: label,
+        code: "LITERAL_TYPE_ERROR",
+        message: `Step "${label}" arg ${index}: parameter type "${paramType}" is a reference — literals can only be passed by value`,
+      };
+    }
+    const reason = checkLiteral(a.value, param.tag);
+    if (!reason) return null;
+    return {
+      stepLabel: label,
+      code: "LITERAL_TYPE_ERROR",
+      message: `Step "${label}" arg ${index}: ${reason} (parameter type "${paramType}")`,
+    };
+  }
+
+  if (a.kind !== "ref") return null;
+
+  const targetOrder = stepOrder.get(a.step);
+  if (targetOrder === undefined || targetOrder >= stepOrder.get(label)!) {
+    return {
+      stepLabel: label,
+      code: "REF_STEP_ERROR",
+      message: `Step "${label}" arg ${index}: arg.ref("${a.step}", ${a.returnIndex}) must reference an earlier step`,
+    };
+  }
+
+  // Target step failed its own validation (e.g. function not found)
+  const target = validated.get(a.step);
+  if (!target) return null;
+
+  if (a.returnIndex < 0 || a.returnIndex >= target.returnTypes.length) {
+    return {
+      stepLabel: label,
+      code: "REF_STEP_ERROR",
+      message: `Step "${label}" arg ${index}: step "${a.step}" has ${target.returnTypes.length} return value(s), but index ${a.returnIndex} was requested`,
+    };
+  }
+
+  const produced = substituteTypeParams(
+    target.returnTypes[a.returnIndex],
+    target.typeArguments,
+  );
+
+  const modeOk =
+    param.reference === "mut"
+      ? a.mode === "borrow_mut"
+      : param.reference === "imm"
+        ? a.mode === "borrow" || a.mode === "borrow_mut"
+        : a.mode === "move" || a.mode === "copy";
+  if (!modeOk) {
+    const expected =
+      param.reference === "mut"
+        ? `"borrow_mut"`
+        : param.reference === "imm"
+          ? `"borrow"`
+          : `"move" or "copy"`;
+    return {
+      stepLabel: label,
+      code: "REF_MODE_ERROR",
+      message: `Step "${label}" arg ${index}: parameter type "${paramType}" requires ref mode ${expected}, got "${a.mode}"`,
+    };
+  }
+
+  if (typesMatch(produced, param.inner) === false) {
+    return {
+      stepLabel: label,
+      code: "REF_TYPE_ERROR",
+      message: `Step "${label}" arg ${index}: step "${a.step}" return[${a.returnIndex}] is "${produced}", but parameter expects "${param.inner}"`,
+    };
+  }
+
+  return null;
+}
+
+// ── Ownership Analysis ────────────────────────────────────────────
+
+/**
+ * Linear-ownership pass over the plan. Each return value may be moved once;
+ * after that it can't be moved, copied or borrowed again. Borrows last only
+ * for the call they're passed to, so conflicts are checked per step.
+ */
+async function checkOwnership(
+  aptos: Aptos,
+  steps: Array<{ label: string; step: ComposerStep }>,
+  validated: Map<string, StepValidation>,
+): Promise<ValidationWarning[]> {
+  const warnings: ValidationWarning[] = [];
+  const movedBy = new Map<string, string>(); // "step:index" → label of the moving step
+
+  for (const { label, step } of steps) {
+    const usesInStep = new Map<string, RefMode[]>();
+
+    for (const a of step.args) {
+      if (a.kind !== "ref") continue;
+      const key = `${a.step}:${a.returnIndex}`;
+      const desc = `step "${a.step}" return[${a.returnIndex}]`;
+
+      const mover = movedBy.get(key);
+      if (mover) {
+        warnings.push(
+          a.mode === "move"
+            ? {
+                stepLabel: label,
+                code: "DOUBLE_MOVE_ERROR",
+                message: `Step "${label}": ${desc} was already moved by step "${mover}"`,
+              }
+            : {
+                stepLabel: label,
+                code: "USE_AFTER_MOVE_ERROR",
+                message: `Step "${label}": ${desc} is used with mode "${a.mode}" after being moved by step "${mover}"`,
+              },
+        );
+      }
+
+      if (a.mode === "copy") {
+        const target = validated.get(a.step);
+        const retType = target?.returnTypes[a.returnIndex];
+        if (target && retType !== undefined) {
+          const produced = substituteTypeParams(retType, target.typeArguments);
+          if ((await typeHasCopy(aptos, produced)) === false) {
+            warnings.push({
+              stepLabel: label,
+              code: "COPY_ABILITY_ERROR",
+              message: `Step "${label}": ${desc} (${produced}) does not have the copy ability — use "move" or "borrow"`,
+            });
+          }
+        }
+      }
+
+      usesInStep.set(key, [...(usesInStep.get(key) ?? []), a.mode]);
+    }
+
+    // Conflicts between arguments of the same call
+    for (const [key, modes] of usesInStep) {
+      const [refStep, refIndex] = key.split(":");
+      const desc = `step "${refStep}" return[${refIndex}]`;
+      const moves = modes.filter((m) => m === "move").length;
+      const mutBorrows = modes.filter((m) => m === "borrow_mut").length;
+      const borrows = modes.filter((m) => m === "borrow").length;
+
+      if (moves > 1) {
+        warnings.push({
+          stepLabel: label,
+          code: "DOUBLE_MOVE_ERROR",
+          message: `Step "${label}": ${desc} is moved ${moves} times in the same call`,
+        });
+      }
+      if (mutBorrows > 0 && modes.length > 1) {
+        warnings.push({
+          stepLabel: label,
+          code: "BORROW_CONFLICT_ERROR",
+          message: `Step "${label}": ${desc} is mutably borrowed while also used in the same call (modes: ${modes.join(", ")})`,
+        });
+      } else if (moves > 0 && borrows > 0) {
+        warnings.push({
+          stepLabel: label,
+          code: "BORROW_CONFLICT_ERROR",
+          message: `Step "${label}": ${desc} is moved while borrowed in the same call`,
+        });
+      }
+    }
+
+    for (const a of step.args) {
+      if (a.kind !== "ref" || a.mode !== "move") continue;
+      const key = `${a.step}:${a.returnIndex}`;
+      if (!movedBy.has(key)) movedBy.set(key, label);
+    }
+  }
+
+  return warnings;
+}
+
+// ── Unconsumed Returns ────────────────────────────────────────────
+
+export interface UnconsumedReturn {
+  stepLabel: string;
+  returnIndex: number;
+  /** Return type with the step's type arguments substituted */
+  type: string;
+}
+
+/** Non-droppable returns that no step takes by move */
+export function findUnconsumedReturns(
+  steps: Array<{ label: string; step: ComposerStep }>,
+  validations: StepValidation[],
+): UnconsumedReturn[] {
+  const consumedRefs = new Set<string>();
+  for (const { step } of steps) {
+    for (const arg of step.args) {
+      if (arg.kind === "ref" && arg.mode === "move") {
+        consumedRefs.add(`${arg.step}:${arg.returnIndex}`);
+      }
+    }
+  }
+
+  const unconsumed: UnconsumedReturn[] = [];
+  for (const v of validations) {
+    for (const idx of v.nonDroppableReturns) {
+      if (!consumedRefs.has(`${v.label}:${idx}`)) {
+        unconsumed.push({
+          stepLabel: v.label,
+          returnIndex: idx,
+          type: substituteTypeParams(v.returnTypes[idx], v.typeArguments),
+        });
+      }
+    }
+  }
+  return unconsumed;
 }
 
 // ── Main Validation ───────────────────────────────────────────────
@@ -152,9 +403,11 @@ async function checkDropAbility(
 export async function validateSteps(
   aptos: Aptos,
   steps: Array<{ label: string; step: ComposerStep }>,
+  options?: { signers?: number },
 ): Promise<{ validations: StepValidation[]; warnings: ValidationWarning[] }> {
   const warnings: ValidationWarning[] = [];
   const validations: StepValidation[] = [];
+  const signers = options?.signers ?? 1;
 
   // 1. Fetch all ABIs in parallel (deduped by module via cache)
   const abiPromises = steps.map(async ({ label, step }) => {
@@ -165,6 +418,9 @@ export async function validateSteps(
 
   const results = await Promise.all(abiPromises);
 
+  const stepOrder = new Map(steps.map(({ label }, i) => [label, i]));
+  const validated = new Map<string, StepValidation>();
+
   // 2. Validate each step
   for (const { label, step, abi } of results) {
     if (!abi) {
@@ -204,6 +460,18 @@ export async function validateSteps(
       });
     }
 
+    // Signer indices must name one of the transaction's signers
+    for (const a of signerArgs) {
+      const index = a.kind === "signer" ? (a.index ?? 0) : 0;
+      if (!Number.isInteger(index) || index < 0 || index >= signers) {
+        warnings.push({
+          stepLabel: label,
+          code: "SIGNER_INDEX_ERROR",
+          message: `Step "${label}": arg.signer(${index}) but the transaction has ${signers} signer(s) — declare secondary signers with addSigner()`,
+        });
+      }
+    }
+
     // Non-signer arg count
     if (nonSignerArgs.length !== nonSignerParams.length) {
       warnings.push({
@@ -236,6 +504,23 @@ export async function validateSteps(
       }
     }
 
+    // Per-argument type checking against the (generic-substituted) params
+    const typeArguments = step.typeArguments ?? [];
+    for (let i = signerCount; i < step.args.length; i++) {
+      const paramType = nonSignerParams[i - signerCount];
+      if (paramType === undefined) break;
+      const warning = checkArgType(
+        label,
+        i,
+        step.args[i],
+        paramType,
+        typeArguments,
+        stepOrder,
+        validated,
+      );
+      if (warning) warnings.push(warning);
+    }
+
     // Detect non-droppable return types
     const nonDroppableReturns: number[] = [];
     for (let i = 0; i < returnTypes.length; i++) {
@@ -243,11 +528,12 @@ export async function validateSteps(
       if (isStructType(retType)) {
         const structId = parseStructId(retType);
         if (structId) {
-          const hasDrop = await checkDropAbility(
+          const hasDrop = await hasAbility(
             aptos,
             structId[0],
             structId[1],
             structId[2],
+            "drop",
           );
           if (hasDrop === false) {
             nonDroppableReturns.push(i);
@@ -256,36 +542,45 @@ export async function validateSteps(
       }
     }
 
-    validations.push({
+    const validation: StepValidation = {
       label,
       function: step.function,
       abi,
+      typeArguments,
       signerCount,
       params: nonSignerParams,
       returnTypes,
       nonDroppableReturns,
-    });
+    };
+    validations.push(validation);
+    validated.set(label, validation);
   }
 
-  // 3. Cross-step analysis: unconsumed non-droppable returns
-  const consumedRefs = new Set<string>();
-  for (const { step } of steps) {
-    for (const arg of step.args) {
-      if (arg.kind === "ref") {
-        consumedRefs.add(`${arg.step}:${arg.returnIndex}`);
-      }
-    }
+  // 3. Linear ownership: double moves, use after move, copy ability, borrow conflicts
+  warnings.push(...(await checkOwnership(aptos, steps, validated)));
+
+  // 4. Cross-step analysis: unconsumed non-droppable returns (borrows don't consume)
+  for (const u of findUnconsumedReturns(steps, validations)) {
+    warnings.push({
+      stepLabel: u.stepLabel,
+      code: "UNCONSUMED_RESOURCE",
+      message: `Step "${u.stepLabel}" return[${u.returnIndex}] (${u.type}) is non-droppable but not consumed by any subsequent step — add a deposit or use step`,
+    });
   }
 
-  for (const v of validations) {
-    for (const idx of v.nonDroppableReturns) {
-      if (!consumedRefs.has(`${v.label}:${idx}`)) {
-        warnings.push({
-          stepLabel: v.label,
-          code: "UNCONSUMED_RESOURCE",
-          message: `Step "${v.label}" return[${idx}] (${v.returnTypes[idx]}) is non-droppable but not consumed by any subsequent step — add a deposit or use step`,
-        });
-      }
+  // 5. Secondary signers no step uses still have to sign
+  const used = new Set(
+    steps.flatMap(({ step }) =>
+      step.args.flatMap((a) => (a.kind === "signer" ? [a.index ?? 0] : [])),
+    ),
+  );
+  for (let i = 1; i < signers; i++) {
+    if (!used.has(i)) {
+      warnings.push({
+        stepLabel: "signers",
+        code: "UNUSED_SIGNER",
+        message: `Signer ${i} is declared but no step uses arg.signer(${i})`,
+      });
     }
   }
 
@@ -1,11 +1,38 @@
 // Core
 export { AptosClient } from "./core/client.js";
+export type { FeePayer } from "./core/client.js";
+export { AccountSigner, AirGappedSigner, signingRequest } from "./core/signer.js";
+export type { AirGappedSignerOptions, SigningRequest } from "./core/signer.js";
+export { parsePublicKey, accountFromPrivateKey } from "./core/keys.js";
+export { SubmissionQueue } from "./core/submission.js";
 export {
   getFABalance,
   getFABalanceSafe,
+  getCoinBalance,
+  readFABalance,
+  readCoinBalance,
+  readStoreBalance,
   getBalances,
-  formatAmount,
+  tokenComponents,
+  tokenBalance,
 } from "./core/balance.js";
+export {
+  formatAmount,
+  formatTokenAmount,
+  parseAmount,
+} from "./core/amount.js";
+export type {
+  RoundingMode,
+  FormatAmountOptions,
+  ParseAmountOptions,
+} from "./core/amount.js";
+export {
+  resolveToken,
+  resolveTokens,
+  discoverTokens,
+  clearTokenCache,
+} from "./core/token-metadata.js";
+export type { TokenConfigMismatch } from "./core/token-metadata.js";
 export {
   buildTransaction,
   simulateTransaction,
@@ -36,21 +63,46 @@ export { DEFAULT_ECHELON_CONFIG } from "./protocols/echelon/index.js";
 export type { EchelonConfig } from "./protocols/echelon/index.js";
 
 // Simulation — parsing
-export { parseSimulationResult } from "./simulation/simulate.js";
+export {
+  parseSimulationResult,
+  preStateLedgerVersion,
+} from "./simulation/simulate.js";
+export {
+  parseWriteSet,
+  fetchWriteSetPreState,
+  filterWriteSet,
+} from "./simulation/write-set.js";
 export { ForkedSession } from "./simulation/forklift.js";
 export type {
   ForkedSessionConfig,
   ForkStepResult,
-  ResourceDiff,
 } from "./simulation/forklift.js";
 
 // Simulation — flow engine
 export { SimulationPlanBuilder, dryRun } from "./simulation/plan.js";
 export { formatFlowReport } from "./simulation/report.js";
-export { diagnoseVmStatus } from "./simulation/errors.js";
+export {
+  diagnoseVmStatus,
+  parseAbortLocation,
+  parseAbortCode,
+  decodeAbort,
+  registerErrorDiagnoser,
+  unregisterErrorDiagnoser,
+  listErrorDiagnosers,
+} from "./simulation/errors.js";
+export type {
+  AbortLocation,
+  DecodedAbort,
+  ErrorDiagnoser,
+  AbortCodeDiagnosis,
+} from "./simulation/errors.js";
 export {
   captureSnapshot,
+  captureStoreSnapshot,
+  capturePartySnapshot,
   extractBalancesFromSimulation,
+  extractStoreBalancesFromSimulation,
+  extractPartyBalancesFromSimulation,
   extractVaultFromSimulation,
   computeDeltas,
   computeDiff,
@@ -60,12 +112,25 @@ export {
 // Types — core
 export type {
   ToolkitConfig,
+  KeyScheme,
+  FeePayerConfig,
+  FeePayerSignFn,
+  Signer,
+  SignTransactionFn,
+  SubmissionJob,
+  SubmissionStatus,
+  SubmissionEvent,
+  SubmissionQueueOptions,
   TokenConfig,
+  TokenInput,
   EntryFunctionPayload,
   SimulationResult,
   ParsedEvent,
   BalanceChange,
   VaultChange,
+  ResourceDiff,
+  WriteSetChange,
+  WriteSetFilter,
   ExecutionResult,
   ComposableAction,
   ComposerContext,
@@ -76,7 +141,23 @@ export { DynamicComposer } from "./dynamic/composer.js";
 export { arg } from "./dynamic/types.js";
 export { formatComposedSummary } from "./dynamic/report.js";
 export { validateSteps } from "./dynamic/validate.js";
+export { canonicalPlanJSON, hashPlan } from "./dynamic/plan-hash.js";
+export { BUILTIN_SUB_PLANS } from "./dynamic/subplan.js";
+export { evaluateGuards } from "./dynamic/guards.js";
+export { compareResults, formatDriftReport, DriftError } from "./dynamic/drift.js";
+export {
+  DYNAMIC_PLAN_SCHEMA,
+  COMPOSE_TRANSACTION_TOOL_NAME,
+  validatePlanJSON,
+  anthropicToolDefinition,
+  openAIToolDefinition,
+} from "./dynamic/schema.js";
+export type {
+  PlanSchemaError,
+  PlanValidationResult,
+} from "./dynamic/schema.js";
 export type { StepValidation, ValidationWarning } from "./dynamic/validate.js";
+export type { ErrorDescription, ErrorMap } from "./simulation/module-metadata.js";
 
 // Types — simulation engine
 export type {
@@ -84,6 +165,9 @@ export type {
   VaultSnapshot,
   BalanceDelta,
   BalanceDiff,
+  BalanceReadError,
+  TrackedParty,
+  PartyBalanceDiff,
   PlanStep,
   StepExpectation,
   ExpectationType,
@@ -92,6 +176,7 @@ export type {
   ExpectationResult,
   ErrorSeverity,
   DiagnosedError,
+  DiagnosisSuggestion,
   FlowReport,
 } from "./simulation/types.js";
 
@@ -99,9 +184,38 @@ export type {
 export type {
   StepArg,
   RefMode,
+  IntegerType,
+  TypedLiteral,
+  LiteralValue,
   ComposerStep,
   ComposedResult,
+  BuildOptions,
+  AutoSweepOptions,
+  SimulateOptions,
+  TrackingOptions,
+  TrackedStore,
+  SecondarySigner,
+  Guard,
+  GuardAmount,
+  GuardResult,
+  GuardJSON,
+  DriftTolerance,
+  DriftReport,
+  TokenDrift,
+  ExecuteOptions,
+  StepAttribution,
   StepArgJSON,
+  TypedLiteralJSON,
+  LiteralValueJSON,
   DynamicStepJSON,
   DynamicPlanJSON,
+  PlanParamJSON,
+  DynamicPlanTemplateJSON,
+  TemplateParamValue,
+  SubPlanArg,
+  SubPlanStep,
+  SubPlanOutput,
+  SubPlan,
+  DynamicSubPlanStepJSON,
+  SubPlanJSON,
 } from "./dynamic/types.js";
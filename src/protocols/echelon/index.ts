@@ -1,4 +1,8 @@
 import type { CallArgument } from "@aptos-labs/script-composer-sdk";
+import {
+  registerErrorDiagnoser,
+  type ErrorDiagnoser,
+} from "../../simulation/errors.js";
 import type { LendingAdapter } from "../protocol.js";
 import type {
   EntryFunctionPayload,
@@ -9,14 +13,62 @@ import {
   type EchelonConfig,
 } from "./types.js";
 
+/** Diagnosers for aborts in Echelon's lending modules at `address` */
+function echelonErrorDiagnosers(address: string): ErrorDiagnoser[] {
+  return [
+    {
+      id: `echelon:${address}:repay_exceeds_debt`,
+      address,
+      pattern: /REPAY.*EXCEED|repay_amount_exceeds/i,
+      priority: 10,
+      code: "REPAY_EXCEEDS_DEBT",
+      title: "Repay amount exceeds outstanding debt",
+      detail: "Attempting to repay more than the current debt amount. Use repay_all to handle exact amounts.",
+      suggestions: [
+        { text: "Use repay_all_fa instead, or reduce the repay amount to match the actual debt.", action: "use_repay_all" },
+      ],
+    },
+    {
+      id: `echelon:${address}:insufficient_shares`,
+      address,
+      pattern: /INSUFFICIENT_SHARES|insufficient_shares/i,
+      priority: 10,
+      code: "INSUFFICIENT_SHARES",
+      title: "Insufficient collateral shares",
+      detail: "Attempting to withdraw more collateral than is deposited.",
+      suggestions: [
+        { text: "Reduce the withdrawal amount or use withdraw_all to withdraw everything.", action: "use_withdraw_all" },
+      ],
+    },
+    {
+      id: `echelon:${address}:lending`,
+      address,
+      modules: ["lending", "scripts"],
+      code: "LENDING_ERROR",
+      title: "Lending protocol error",
+      detail: "The Echelon lending protocol rejected the operation.",
+      suggestions: [
+        { text: "Check: repay amount <= debt, withdrawal won't breach health factor, position exists.", action: "check_position" },
+      ],
+    },
+  ];
+}
+
+// The default deployment is diagnosed from import; adapters at another
+// address register theirs when constructed
+for (const d of echelonErrorDiagnosers(DEFAULT_ECHELON_CONFIG.address)) registerErrorDiagnoser(d);
+
 export class EchelonAdapter implements LendingAdapter {
   readonly name = "Echelon Lending";
   readonly address: string;
+  readonly errorDiagnosers: ErrorDiagnoser[];
   private readonly cfg: EchelonConfig;
 
   constructor(config?: Partial<EchelonConfig>) {
     this.cfg = { ...DEFAULT_ECHELON_CONFIG, ...config };
     this.address = this.cfg.address;
+    this.errorDiagnosers = echelonErrorDiagnosers(this.address);
+    for (const d of this.errorDiagnosers) registerErrorDiagnoser(d);
   }
 
   /** Look up a market address by token symbol (e.g. "USD1") */
@@ -6,6 +6,10 @@ import type {
   TokenConfig,
 } from "../../types.js";
 import type { AptosClient } from "../../core/client.js";
+import {
+  registerErrorDiagnoser,
+  type ErrorDiagnoser,
+} from "../../simulation/errors.js";
 import {
   DEFAULT_HYPERION_CONFIG,
   MAX_SQRT_PRICE_B_TO_A,
@@ -13,14 +17,60 @@ import {
   type HyperionConfig,
 } from "./types.js";
 
+/** Hyperion pools hold fungible assets — a coin-only token can't be routed */
+function faMetadata(token: TokenConfig): string {
+  if (!token.metadata) {
+    throw new Error(`Hyperion: token "${token.symbol}" has no FA metadata address`);
+  }
+  return token.metadata;
+}
+
+/** Diagnosers for aborts in Hyperion's pool modules at `address` */
+function hyperionErrorDiagnosers(address: string): ErrorDiagnoser[] {
+  return [
+    {
+      id: `hyperion:${address}:price_limit`,
+      address,
+      modules: ["pool_v3", "router_v3"],
+      pattern: /SQRT_PRICE_LIMIT|sqrt_price/i,
+      priority: 10,
+      code: "PRICE_LIMIT_ERROR",
+      title: "Swap price limit exceeded",
+      detail: "The swap would move the price beyond the specified limit.",
+      suggestions: [
+        { text: "Increase slippage tolerance (a wider sqrt_price_limit).", action: "increase_slippage" },
+        { text: "Reduce the swap amount.", action: "reduce_amount" },
+      ],
+    },
+    {
+      id: `hyperion:${address}:pool`,
+      address,
+      modules: ["pool_v3", "pool_v2", "router_v3"],
+      code: "DEX_POOL_ERROR",
+      title: "DEX pool operation failed",
+      detail: "The Hyperion pool rejected the swap operation.",
+      suggestions: [
+        { text: "Check slippage tolerance, pool liquidity, and that the pool address is correct.", action: "check_pool" },
+      ],
+    },
+  ];
+}
+
+// The default deployment is diagnosed from import; adapters at another
+// address register theirs when constructed
+for (const d of hyperionErrorDiagnosers(DEFAULT_HYPERION_CONFIG.address)) registerErrorDiagnoser(d);
+
 export class HyperionAdapter implements DexAdapter {
   readonly name = "Hyperion DEX";
   readonly address: string;
+  readonly errorDiagnosers: ErrorDiagnoser[];
   private readonly cfg: HyperionConfig;
 
   constructor(config?: Partial<HyperionConfig>) {
     this.cfg = { ...DEFAULT_HYPERION_CONFIG, ...config };
     this.address = this.cfg.address;
+    this.errorDiagnosers = hyperionErrorDiagnosers(this.address);
+    for (const d of this.errorDiagnosers) registerErrorDiagnoser(d);
   }
 
   /** Look up a pool address by key (e.g. "USD1_USDC") */
@@ -43,8 +93,8 @@ export class HyperionAdapter implements DexAdapter {
           functionArguments: [
             pools,
             amountIn.toString(),
-            tokenIn.metadata,
-            tokenOut.metadata,
+            faMetadata(tokenIn),
+            faMetadata(tokenOut),
           ],
         },
       });
@@ -67,8 +117,8 @@ export class HyperionAdapter implements DexAdapter {
       typeArguments: [],
       functionArguments: [
         params.pools,
-        params.tokenIn.metadata,
-        params.tokenOut.metadata,
+        faMetadata(params.tokenIn),
+        faMetadata(params.tokenOut),
         params.amountIn.toString(),
         params.minAmountOut.toString(),
         params.recipient,
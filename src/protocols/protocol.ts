@@ -5,10 +5,13 @@ import type {
   TokenConfig,
 } from "../types.js";
 import type { AptosClient } from "../core/client.js";
+import type { ErrorDiagnoser } from "../simulation/errors.js";
 
 export interface ProtocolAdapter {
   readonly name: string;
   readonly address: string;
+  /** Error diagnosers scoped to this protocol's modules, registered on construction */
+  readonly errorDiagnosers?: ErrorDiagnoser[];
 }
 
 export interface DexAdapter extends ProtocolAdapter {
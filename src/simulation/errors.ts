@@ -1,130 +1,318 @@
-import type { DiagnosedError, ErrorSeverity } from "./types.js";
+import type { Aptos } from "@aptos-labs/ts-sdk";
+import type {
+  DiagnosedError,
+  DiagnosisSuggestion,
+  ErrorSeverity,
+} from "./types.js";
+import { fetchErrorMap } from "./module-metadata.js";
+import { normalizeAddress } from "../core/util.js";
 
-interface ErrorPattern {
-  pattern: RegExp;
+// ── Diagnoser Registry ─────────────────────────────────────────────
+
+/** Diagnosis for a specific abort code, overriding the diagnoser's defaults */
+export interface AbortCodeDiagnosis {
+  code?: string;
+  title: string;
+  detail?: string;
+  suggestions?: DiagnosisSuggestion[];
+}
+
+export interface ErrorDiagnoser {
+  /** Unique id — registering the same id again replaces the earlier entry */
+  id: string;
+  /** Only match failures in modules published at this address */
+  address?: string;
+  /** Only match failures in these modules (requires `address`) */
+  modules?: string[];
+  /** Match against the raw vm_status */
+  pattern?: RegExp;
+  /**
+   * Abort-code table. Keys are full codes ("65540" or "0x10004"), reasons
+   * ("4") or decoded constant names ("EINSUFFICIENT_BALANCE"); a hit ranks
+   * above plain matches.
+   */
+  abortCodes?: Record<string, AbortCodeDiagnosis>;
+  /** Higher runs first (default 0) */
+  priority?: number;
   code: string;
   title: string;
   detail: string;
-  suggestion: string;
-  severity: ErrorSeverity;
+  suggestions: DiagnosisSuggestion[];
+  severity?: ErrorSeverity;
+}
+
+/** Process-wide diagnosers by id (iteration follows registration order) */
+const registry = new Map<string, ErrorDiagnoser>();
+
+export function registerErrorDiagnoser(diagnoser: ErrorDiagnoser): () => void {
+  if (diagnoser.address === undefined && diagnoser.pattern === undefined) {
+    throw new Error(
+      `Error diagnoser "${diagnoser.id}" needs an address scope or a pattern`,
+    );
+  }
+  registry.delete(diagnoser.id);
+  registry.set(diagnoser.id, diagnoser);
+  return () => unregisterErrorDiagnoser(diagnoser.id);
+}
+
+export function unregisterErrorDiagnoser(id: string): boolean {
+  return registry.delete(id);
 }
 
-const ERROR_PATTERNS: ErrorPattern[] = [
+/** Registered diagnosers in registration order */
+export function listErrorDiagnosers(): ErrorDiagnoser[] {
+  return [...registry.values()];
+}
+
+// ── Built-in Diagnosers ────────────────────────────────────────────
+
+const BUILTIN_DIAGNOSERS: ErrorDiagnoser[] = [
   {
+    id: "builtin:insufficient_balance",
     pattern: /INSUFFICIENT_BALANCE|65540/,
     code: "INSUFFICIENT_BALANCE",
     title: "Insufficient token balance",
     detail: "The account does not hold enough of the requested token for this operation.",
-    suggestion: "Verify the wallet holds enough tokens. Check that prior steps produced sufficient output.",
-    severity: "error",
+    suggestions: [
+      { text: "Verify the wallet holds enough tokens. Check that prior steps produced sufficient output.", action: "check_balance" },
+    ],
   },
   {
+    id: "builtin:arithmetic",
     pattern: /ARITHMETIC_ERROR/i,
     code: "ARITHMETIC_OVERFLOW",
     title: "Arithmetic overflow in contract",
     detail: "A math operation overflowed. Common when repay amount exceeds debt or swap amounts exceed pool liquidity.",
-    suggestion: "Check that repay amount <= outstanding debt. Verify swap amounts against pool liquidity.",
-    severity: "error",
+    suggestions: [
+      { text: "Check that repay amount <= outstanding debt. Verify swap amounts against pool liquidity.", action: "reduce_amount" },
+    ],
   },
   {
+    id: "builtin:out_of_gas",
     pattern: /OUT_OF_GAS/i,
     code: "OUT_OF_GAS",
     title: "Transaction ran out of gas",
     detail: "The max gas limit was exceeded. Composed transactions with many steps use more gas.",
-    suggestion: "Increase max_gas_amount or reduce the number of steps.",
-    severity: "error",
+    suggestions: [
+      { text: "Increase max_gas_amount or reduce the number of steps.", action: "increase_max_gas" },
+    ],
   },
   {
+    id: "builtin:sequence_number",
     pattern: /SEQUENCE_NUMBER/i,
     code: "SEQUENCE_NUMBER_ERROR",
     title: "Sequence number mismatch",
     detail: "The transaction sequence number doesn't match the account state. Usually means concurrent transactions.",
-    suggestion: "Wait for any pending transactions to finalize before retrying.",
-    severity: "error",
+    suggestions: [
+      { text: "Wait for any pending transactions to finalize before retrying.", action: "retry_later" },
+      { text: "Submit concurrent transactions through client.submissions, which allocates sequence numbers locally." },
+    ],
   },
   {
-    pattern: /REPAY.*EXCEED|repay_amount_exceeds/i,
-    code: "REPAY_EXCEEDS_DEBT",
-    title: "Repay amount exceeds outstanding debt",
-    detail: "Attempting to repay more than the current debt amount. Use repay_all to handle exact amounts.",
-    suggestion: "Use repay_all_fa instead, or reduce the repay amount to match the actual debt.",
-    severity: "error",
-  },
-  {
-    pattern: /INSUFFICIENT_SHARES|insufficient_shares/i,
-    code: "INSUFFICIENT_SHARES",
-    title: "Insufficient collateral shares",
-    detail: "Attempting to withdraw more collateral than is deposited.",
-    suggestion: "Reduce the withdrawal amount or use withdraw_all to withdraw everything.",
-    severity: "error",
-  },
-  {
-    pattern: /SQRT_PRICE_LIMIT|sqrt_price/i,
-    code: "PRICE_LIMIT_ERROR",
-    title: "Swap price limit exceeded",
-    detail: "The swap would move the price beyond the specified limit.",
-    suggestion: "Increase slippage tolerance or reduce swap amount.",
-    severity: "error",
-  },
-  {
-    pattern: /lending/i,
-    code: "LENDING_ERROR",
-    title: "Lending protocol error",
-    detail: "The lending protocol rejected the operation.",
-    suggestion: "Check: repay amount <= debt, withdrawal won't breach health factor, position exists.",
-    severity: "error",
-  },
-  {
-    pattern: /pool_v3|pool_v2/i,
-    code: "DEX_POOL_ERROR",
-    title: "DEX pool operation failed",
-    detail: "The DEX pool rejected the swap operation.",
-    suggestion: "Check slippage tolerance, pool liquidity, and that the pool address is correct.",
-    severity: "error",
-  },
-  {
-    pattern: /ABORTED/i,
+    id: "builtin:move_abort",
+    pattern: /ABORTED|Move abort/i,
+    priority: -10,
     code: "MOVE_ABORT",
     title: "Move module aborted execution",
     detail: "A Move smart contract called abort(). The abort code indicates the specific failure.",
-    suggestion: "Check the abort code against the protocol's documentation or source code.",
-    severity: "error",
+    suggestions: [
+      { text: "Check the abort code against the protocol's documentation or source code." },
+    ],
   },
 ];
 
+for (const d of BUILTIN_DIAGNOSERS) registerErrorDiagnoser(d);
+
+// ── Diagnosis ──────────────────────────────────────────────────────
+
+function lookupAbortCode(
+  diagnoser: ErrorDiagnoser,
+  abort: DecodedAbort | null,
+): AbortCodeDiagnosis | undefined {
+  if (!diagnoser.abortCodes || !abort) return undefined;
+  const table = diagnoser.abortCodes;
+  return (
+    table[String(abort.code)] ??
+    table[`0x${abort.code.toString(16)}`] ??
+    table[String(abort.code & 0xffff)] ??
+    (abort.name ? table[abort.name] : undefined)
+  );
+}
+
+/**
+ * Map a vm_status to actionable errors: every matching registered diagnoser,
+ * ranked by priority, then specificity (abort-code hit > module address scope
+ * > pattern), then registration order. Pass the result of `decodeAbort` to
+ * prefix each detail with the abort constant and its description.
+ */
 export function diagnoseVmStatus(
   vmStatus: string,
   stepLabel?: string,
+  abort?: DecodedAbort | null,
 ): DiagnosedError[] {
   if (!vmStatus || vmStatus === "Executed successfully") return [];
 
-  const errors: DiagnosedError[] = [];
+  const decoded = abort ?? parseAbortCode(vmStatus);
+  const location = decoded ?? parseAbortLocation(vmStatus);
+  const abortAddress = location ? normalizeAddress(location.address) : null;
 
-  for (const pattern of ERROR_PATTERNS) {
-    if (pattern.pattern.test(vmStatus)) {
-      errors.push({
-        severity: pattern.severity,
-        code: pattern.code,
-        title: pattern.title,
-        detail: pattern.detail,
-        suggestion: pattern.suggestion,
+  const matches: Array<{ error: DiagnosedError; rank: [number, number, number] }> = [];
+  [...registry.values()].forEach((d, order) => {
+    if (d.address !== undefined) {
+      if (!location || normalizeAddress(d.address) !== abortAddress) return;
+      if (d.modules && !d.modules.includes(location.module)) return;
+    }
+    if (d.pattern && !d.pattern.test(vmStatus)) return;
+
+    const hit = lookupAbortCode(d, decoded);
+    const specificity = hit ? 3 : d.address !== undefined ? 2 : 1;
+    const suggestions = hit?.suggestions ?? d.suggestions;
+
+    matches.push({
+      rank: [d.priority ?? 0, specificity, -order],
+      error: {
+        severity: d.severity ?? "error",
+        code: hit?.code ?? d.code,
+        title: hit?.title ?? d.title,
+        detail: withAbortDetail(hit?.detail ?? d.detail, abort),
+        suggestion: suggestions[0]?.text ?? "",
+        suggestions,
         stepLabel,
-      });
-      break; // first match wins (patterns are ordered by specificity)
+        source: d.id,
+      },
+    });
+  });
+
+  matches.sort((a, b) => {
+    for (let i = 0; i < 3; i++) {
+      if (a.rank[i] !== b.rank[i]) return b.rank[i] - a.rank[i];
     }
+    return 0;
+  });
+
+  // If no diagnoser matched, add a generic error
+  if (matches.length === 0) {
+    return [
+      {
+        severity: "error",
+        code: "UNKNOWN_ERROR",
+        title: "Transaction failed",
+        detail: parseAbortCode(vmStatus)?.description
+          ? `VM status: ${vmStatus}`
+          : withAbortDetail(`VM status: ${vmStatus}`, abort),
+        suggestion: "Inspect the raw vm_status for details.",
+        stepLabel,
+      },
+    ];
   }
 
-  // If no pattern matched, add a generic error
-  if (errors.length === 0 && vmStatus !== "Executed successfully") {
-    errors.push({
-      severity: "error",
-      code: "UNKNOWN_ERROR",
-      title: "Transaction failed",
-      detail: `VM status: ${vmStatus}`,
-      suggestion: "Inspect the raw vm_status for details.",
-      stepLabel,
-    });
+  return matches.map((m) => m.error);
+}
+
+// ── Abort Location ─────────────────────────────────────────────────
+
+export interface AbortLocation {
+  /** Module address as it appears in the vm_status */
+  address: string;
+  module: string;
+}
+
+/**
+ * Extract the module a failure happened in, e.g.
+ * "Move abort in 0x8b4a...::pool_v3: E_PRICE_LIMIT(0x10006): ..." or
+ * "ARITHMETIC_ERROR ... in 0x1::math64::mul_div at code offset 9".
+ */
+export function parseAbortLocation(vmStatus: string): AbortLocation | null {
+  const match = /\b(?:in|at) (0x[0-9a-fA-F]+)::([A-Za-z_][A-Za-z0-9_]*)/.exec(vmStatus);
+  if (!match) return null;
+  return { address: match[1], module: match[2] };
+}
+
+// ── Abort Codes ────────────────────────────────────────────────────
+
+/** Canonical error categories from `std::error` (the code's upper bits) */
+const ERROR_CATEGORIES: Record<number, string> = {
+  0x1: "INVALID_ARGUMENT",
+  0x2: "OUT_OF_RANGE",
+  0x3: "INVALID_STATE",
+  0x4: "UNAUTHENTICATED",
+  0x5: "PERMISSION_DENIED",
+  0x6: "NOT_FOUND",
+  0x7: "ABORTED",
+  0x8: "ALREADY_EXISTS",
+  0x9: "RESOURCE_EXHAUSTED",
+  0xa: "CANCELLED",
+  0xb: "INTERNAL",
+  0xc: "NOT_IMPLEMENTED",
+  0xd: "UNAVAILABLE",
+};
+
+export interface DecodedAbort extends AbortLocation {
+  code: number;
+  /** `std::error` category name, when the code uses one */
+  category?: string;
+  /** Abort constant name, e.g. "EINSUFFICIENT_BALANCE" */
+  name?: string;
+  description?: string;
+}
+
+const ABORT_CODE_PATTERNS = [
+  /\((0x[0-9a-fA-F]+)\)/, // "EINSUFFICIENT_BALANCE(0x10004): ..."
+  /::[A-Za-z_][A-Za-z0-9_]*:\s*(0x[0-9a-fA-F]+)\b/, // "...::pool_v3: 0x10006"
+  /\bcode[:\s]+(0x[0-9a-fA-F]+|\d+)/i, // "code: 65540"
+  /sub_status:\s*Some\((\d+)\)/, // "sub_status: Some(65540)"
+];
+
+/** Parse the aborting module, code and (if the node decoded it) constant name */
+export function parseAbortCode(vmStatus: string): DecodedAbort | null {
+  const location = parseAbortLocation(vmStatus);
+  if (!location) return null;
+
+  for (const pattern of ABORT_CODE_PATTERNS) {
+    const match = pattern.exec(vmStatus);
+    if (!match) continue;
+    const code = Number(match[1]);
+    const named = /::[A-Za-z_][A-Za-z0-9_]*:\s*([A-Za-z_][A-Za-z0-9_]*)\(0x/.exec(vmStatus);
+    const described = /\(0x[0-9a-fA-F]+\):\s*(.+)$/.exec(vmStatus);
+    return {
+      ...location,
+      code,
+      category: ERROR_CATEGORIES[code >> 16],
+      name: named?.[1],
+      description: described?.[1].trim() || undefined,
+    };
   }
+  return null;
+}
+
+/**
+ * Decode an abort in `vmStatus`. The node's own decoding (name and
+ * description in the status) wins; the aborting module's on-chain error map
+ * only fills what it left out. Codes are looked up as-is, then by reason
+ * (lower 16 bits) for `std::error`-wrapped codes. Returns null if the status
+ * isn't an abort.
+ */
+export async function decodeAbort(
+  aptos: Aptos,
+  vmStatus: string,
+): Promise<DecodedAbort | null> {
+  const abort = parseAbortCode(vmStatus);
+  if (!abort || (abort.name && abort.description)) return abort;
+
+  const errorMap = await fetchErrorMap(aptos, abort.address, abort.module);
+  const entry = errorMap?.get(abort.code) ?? errorMap?.get(abort.code & 0xffff);
+  if (!entry) return abort;
+  return {
+    ...abort,
+    name: abort.name ?? entry.name,
+    description: abort.description ?? entry.description,
+  };
+}
 
-  return errors;
+function withAbortDetail(detail: string, abort?: DecodedAbort | null): string {
+  if (!abort?.name) return detail;
+  const code = `0x${abort.code.toString(16)}`;
+  const where = `${abort.module}, ${abort.category ? `${abort.category} ` : ""}${code}`;
+  const description = abort.description ? `: ${abort.description}` : "";
+  return `${abort.name}${description} (${where}). ${detail}`;
 }
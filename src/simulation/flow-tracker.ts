@@ -10,31 +10,113 @@ import type {
   VaultSnapshot,
   BalanceDelta,
   BalanceDiff,
+  BalanceReadError,
+  TrackedParty,
   StepExpectation,
   ExpectationResult,
 } from "./types.js";
-import { getFABalance } from "../core/balance.js";
-import { formatAmount } from "../core/balance.js";
+import {
+  readCoinBalance,
+  readFABalance,
+  readStoreBalance,
+  tokenComponents,
+  tokenMatches,
+} from "../core/balance.js";
+import { formatAmount } from "../core/amount.js";
+import { typesMatch } from "../dynamic/move-types.js";
+import { errorMessage, sameAddress } from "../core/util.js";
 
 // ── Snapshot Capture ───────────────────────────────────────────────
 
+/**
+ * Read balances from the node, optionally pinned to `ledgerVersion` (use
+ * `preStateLedgerVersion` to match a simulation). Balances are keyed per
+ * component (FA metadata address or coin type, see `tokenComponents`), so a
+ * paired coin + FA token is snapshotted, extracted and carried forward as two
+ * entries and summed only when computing deltas. A component that can't be
+ * read is left out of `balances` and reported in `errors`.
+ */
 export async function captureSnapshot(
   aptos: Aptos,
   owner: string,
   tokens: TokenConfig[],
+  ledgerVersion?: bigint,
 ): Promise<BalanceSnapshot> {
   const balances = new Map<string, bigint>();
+  const errors: BalanceReadError[] = [];
   await Promise.all(
-    tokens.map(async (t) => {
-      const bal = await getFABalance(aptos, owner, t.metadata);
-      balances.set(t.metadata, bal);
-    }),
+    tokens.flatMap((t) =>
+      tokenComponents(t).map(async (component) => {
+        try {
+          const bal =
+            component === t.metadata
+              ? await readFABalance(aptos, owner, component, ledgerVersion)
+              : await readCoinBalance(aptos, owner, component, ledgerVersion);
+          balances.set(component, bal);
+        } catch (e) {
+          errors.push({ owner, token: t.symbol, component, message: errorMessage(e) });
+        }
+      }),
+    ),
   );
-  return { owner, balances };
+  return { owner, balances, ledgerVersion, ...(errors.length > 0 ? { errors } : {}) };
+}
+
+/**
+ * Balance of an explicit (e.g. secondary or protocol-owned) fungible store
+ * object, keyed by its metadata address if that's a tracked token. A store
+ * holds a single asset, so at most one entry is set; a store that doesn't
+ * exist yet has no entries (it starts at zero).
+ */
+export async function captureStoreSnapshot(
+  aptos: Aptos,
+  store: string,
+  tokens: TokenConfig[],
+  ledgerVersion?: bigint,
+): Promise<BalanceSnapshot> {
+  const balances = new Map<string, bigint>();
+  try {
+    const data = await readStoreBalance(aptos, store, ledgerVersion);
+    const token = data
+      ? tokens.find((t) => t.metadata && sameAddress(t.metadata, data.metadata))
+      : undefined;
+    if (data && token) balances.set(token.metadata!, data.balance);
+  } catch (e) {
+    const message = errorMessage(e);
+    const errors = tokens
+      .filter((t) => t.metadata)
+      .map((t) => ({ owner: store, token: t.symbol, component: t.metadata!, message }));
+    return { owner: store, balances, ledgerVersion, errors };
+  }
+  return { owner: store, balances, ledgerVersion };
+}
+
+/** Snapshot for any tracked party (see `TrackedParty`) */
+export function capturePartySnapshot(
+  aptos: Aptos,
+  party: TrackedParty,
+  tokens: TokenConfig[],
+  ledgerVersion?: bigint,
+): Promise<BalanceSnapshot> {
+  return party.kind === "store"
+    ? captureStoreSnapshot(aptos, party.address, tokens, ledgerVersion)
+    : captureSnapshot(aptos, party.address, tokens, ledgerVersion);
 }
 
 // ── Simulation Balance Extraction ──────────────────────────────────
 
+const COIN_STORE = /^0x0*1::coin::CoinStore<(.+)>$/;
+
+/** Coin type `T` of a `0x1::coin::CoinStore<T>` resource type, or null */
+export function coinStoreType(resourceType: string): string | null {
+  return COIN_STORE.exec(resourceType.replace(/\s+/g, ""))?.[1] ?? null;
+}
+
+/** Compare coin types, falling back to plain text when they don't parse */
+export function sameCoinType(a: string, b: string): boolean {
+  return typesMatch(a, b) ?? a.toLowerCase() === b.toLowerCase();
+}
+
 export function extractBalancesFromSimulation(
   raw: UserTransactionResponse,
   tokens: TokenConfig[],
@@ -43,11 +125,14 @@ export function extractBalancesFromSimulation(
   const result = new Map<string, bigint>();
   const changes = ((raw as Record<string, unknown>).changes as unknown[]) ?? [];
 
-  // Pre-compute expected primary store addresses for each tracked token.
+  // Pre-compute expected primary store addresses for each tracked FA.
   // Primary fungible stores are deterministic: sha3_256(owner_bcs || metadata_bcs || 0xFE)
   const ownerAddr = AccountAddress.from(owner);
   const expectedStores = new Map<string, string>(); // lowercase storeAddr → canonical metadata
+  const coinTypes: string[] = [];
   for (const token of tokens) {
+    if (token.coinType) coinTypes.push(token.coinType);
+    if (!token.metadata) continue;
     const metaAddr = AccountAddress.from(token.metadata);
     const storeAddr = createObjectAddress(ownerAddr, metaAddr.toUint8Array());
     expectedStores.set(storeAddr.toString().toLowerCase(), token.metadata);
@@ -55,6 +140,32 @@ export function extractBalancesFromSimulation(
 
   for (const change of changes) {
     const c = change as Record<string, unknown>;
+
+    // Legacy CoinStore<T> at the owner's account — deleted on FA migration
+    if (
+      (c.type === "write_resource" || c.type === "delete_resource") &&
+      coinTypes.length > 0
+    ) {
+      const resourceType =
+        c.type === "write_resource"
+          ? ((c.data as Record<string, unknown> | undefined)?.type as string | undefined)
+          : (c.resource as string | undefined);
+      const coinType = resourceType ? coinStoreType(resourceType) : null;
+      if (coinType && AccountAddress.from(c.address as string).equals(ownerAddr)) {
+        const tracked = coinTypes.find((t) => sameCoinType(t, coinType));
+        if (tracked) {
+          const inner = (c.data as Record<string, unknown> | undefined)?.data as
+            | { coin?: { value?: string } }
+            | undefined;
+          result.set(
+            tracked,
+            c.type === "write_resource" ? BigInt(inner?.coin?.value ?? "0") : 0n,
+          );
+          continue;
+        }
+      }
+    }
+
     if (c.type !== "write_resource") continue;
 
     const data = c.data as Record<string, unknown> | undefined;
@@ -77,6 +188,57 @@ export function extractBalancesFromSimulation(
   return result;
 }
 
+/**
+ * Post-simulation balance of an explicit store object. A deleted store
+ * (`fungible_asset::remove_store` requires it to be empty) reads as zero for
+ * every tracked FA.
+ */
+export function extractStoreBalancesFromSimulation(
+  raw: UserTransactionResponse,
+  tokens: TokenConfig[],
+  store: string,
+): Map<string, bigint> {
+  const result = new Map<string, bigint>();
+  const changes = ((raw as Record<string, unknown>).changes as unknown[]) ?? [];
+
+  for (const change of changes) {
+    const c = change as Record<string, unknown>;
+    if (typeof c.address !== "string" || !sameAddress(c.address, store)) continue;
+
+    if (c.type === "delete_resource" && String(c.resource).includes("FungibleStore")) {
+      for (const t of tokens) if (t.metadata) result.set(t.metadata, 0n);
+      continue;
+    }
+    if (c.type !== "write_resource") continue;
+
+    const data = c.data as Record<string, unknown> | undefined;
+    if (!data || typeof data.type !== "string") continue;
+    if (!data.type.includes("FungibleStore")) continue;
+
+    const inner = data.data as
+      | { balance?: string; metadata?: { inner?: string } }
+      | undefined;
+    const meta = inner?.metadata?.inner;
+    const token = meta ? tokens.find((t) => t.metadata && sameAddress(t.metadata, meta)) : undefined;
+    if (token && inner?.balance != null) {
+      result.set(token.metadata!, BigInt(inner.balance));
+    }
+  }
+
+  return result;
+}
+
+/** Post-simulation balances for any tracked party (see `TrackedParty`) */
+export function extractPartyBalancesFromSimulation(
+  raw: UserTransactionResponse,
+  tokens: TokenConfig[],
+  party: TrackedParty,
+): Map<string, bigint> {
+  return party.kind === "store"
+    ? extractStoreBalancesFromSimulation(raw, tokens, party.address)
+    : extractBalancesFromSimulation(raw, tokens, party.address);
+}
+
 export function extractVaultFromSimulation(
   raw: UserTransactionResponse,
   protocolAddress: string,
@@ -132,23 +294,37 @@ export function extractVaultFromSimulation(
 
 // ── Diff Computation ───────────────────────────────────────────────
 
+/**
+ * Per-token deltas. `readErrors` (from the "before" snapshot) mark the
+ * affected tokens' deltas with `error` rather than letting a missing
+ * balance pass for zero.
+ */
 export function computeDeltas(
   before: Map<string, bigint>,
   after: Map<string, bigint>,
   tokens: TokenConfig[],
+  readErrors: BalanceReadError[] = [],
 ): BalanceDelta[] {
   const deltas: BalanceDelta[] = [];
   for (const token of tokens) {
-    const b = before.get(token.metadata) ?? 0n;
-    const a = after.get(token.metadata) ?? b; // if not in simulation, assume unchanged
+    const failed = readErrors.filter((e) => tokenMatches(token, e.component));
+    let b = 0n;
+    let a = 0n;
+    for (const key of tokenComponents(token)) {
+      const componentBefore = before.get(key) ?? 0n;
+      b += componentBefore;
+      a += after.get(key) ?? componentBefore; // if not in simulation, assume unchanged
+    }
     const delta = a - b;
-    const sign = delta >= 0n ? "+" : "";
     deltas.push({
       token,
       before: b,
       after: a,
       delta,
-      deltaFormatted: `${sign}${formatAmount(delta, token.decimals)}`,
+      deltaFormatted: formatAmount(delta, token.decimals, { signed: true }),
+      ...(failed.length > 0
+        ? { error: failed.map((e) => `${e.component}: ${e.message}`).join("; ") }
+        : {}),
     });
   }
   return deltas;
@@ -163,7 +339,8 @@ export function computeDiff(
 ): BalanceDiff {
   return {
     owner: before.owner,
-    deltas: computeDeltas(before.balances, afterBalances, tokens),
+    deltas: computeDeltas(before.balances, afterBalances, tokens, before.errors),
+    ...(before.errors?.length ? { errors: before.errors } : {}),
     vault:
       vaultBefore !== undefined || vaultAfter !== undefined
         ? { before: vaultBefore ?? null, after: vaultAfter ?? null }
@@ -182,9 +359,7 @@ export function validateExpectations(
   return expectations.map((exp) => {
     switch (exp.type) {
       case "balance_increase": {
-        const d = deltas.find(
-          (d) => d.token.metadata.toLowerCase() === exp.token?.toLowerCase(),
-        );
+        const d = deltas.find((d) => tokenMatches(d.token, exp.token));
         if (!d) return { passed: false, description: exp.description, actual: "token not tracked" };
         return {
           passed: d.delta > 0n,
@@ -193,9 +368,7 @@ export function validateExpectations(
         };
       }
       case "balance_decrease": {
-        const d = deltas.find(
-          (d) => d.token.metadata.toLowerCase() === exp.token?.toLowerCase(),
-        );
+        const d = deltas.find((d) => tokenMatches(d.token, exp.token));
         if (!d) return { passed: false, description: exp.description, actual: "token not tracked" };
         return {
           passed: d.delta < 0n,
@@ -1,4 +1,7 @@
 import { Harness } from "@aptos-labs/forklift";
+import type { ResourceDiff } from "../types.js";
+
+export type { ResourceDiff };
 
 // ── Types ────────────────────────────────────────────────────────
 
@@ -21,13 +24,6 @@ export interface ForkStepResult {
   hash: string;
 }
 
-export interface ResourceDiff {
-  account: string;
-  resourceType: string;
-  before: unknown;
-  after: unknown;
-}
-
 // ── ForkedSession ────────────────────────────────────────────────
 
 /**
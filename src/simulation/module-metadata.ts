@@ -0,0 +1,173 @@
+import { Hex, type Aptos } from "@aptos-labs/ts-sdk";
+
+// ── Types ─────────────────────────────────────────────────────────
+
+/** One `#[error]`-documented abort constant from a module's error map */
+export interface ErrorDescription {
+  name: string;
+  description: string;
+}
+
+/** Abort code (the constant's value, i.e. the reason) → description */
+export type ErrorMap = Map<number, ErrorDescription>;
+
+// ── Byte Reader ───────────────────────────────────────────────────
+
+class Reader {
+  private pos: number;
+
+  constructor(
+    private bytes: Uint8Array,
+    start = 0,
+  ) {
+    this.pos = start;
+  }
+
+  get offset(): number {
+    return this.pos;
+  }
+
+  u8(): number {
+    if (this.pos >= this.bytes.length) throw new Error("unexpected end of bytecode");
+    return this.bytes[this.pos++];
+  }
+
+  u32(): number {
+    let v = 0;
+    for (let i = 0; i < 4; i++) v |= this.u8() << (8 * i);
+    return v >>> 0;
+  }
+
+  u64(): bigint {
+    let v = 0n;
+    for (let i = 0; i < 8; i++) v |= BigInt(this.u8()) << BigInt(8 * i);
+    return v;
+  }
+
+  uleb(): number {
+    let v = 0;
+    let shift = 0;
+    for (;;) {
+      const b = this.u8();
+      v += (b & 0x7f) * 2 ** shift;
+      if ((b & 0x80) === 0) return v;
+      shift += 7;
+    }
+  }
+
+  blob(): Uint8Array {
+    const len = this.uleb();
+    if (this.pos + len > this.bytes.length) throw new Error("unexpected end of bytecode");
+    const out = this.bytes.subarray(this.pos, this.pos + len);
+    this.pos += len;
+    return out;
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.blob());
+  }
+}
+
+// ── Metadata Parsing ──────────────────────────────────────────────
+
+const MOVE_MAGIC = [0xa1, 0x1c, 0xeb, 0x0b];
+const METADATA_TABLE = 0x10;
+const METADATA_KEYS = ["aptos::metadata_v1", "aptos::metadata_v0"];
+
+/** Raw metadata entries (key → value) from a compiled module's metadata table */
+function readMetadataEntries(bytes: Uint8Array): Map<string, Uint8Array> {
+  const r = new Reader(bytes);
+  for (const b of MOVE_MAGIC) {
+    if (r.u8() !== b) throw new Error("not a Move module (bad magic)");
+  }
+  r.u32(); // version
+
+  const tables: Array<{ kind: number; offset: number; count: number }> = [];
+  const tableCount = r.uleb();
+  for (let i = 0; i < tableCount; i++) {
+    tables.push({ kind: r.u8(), offset: r.uleb(), count: r.uleb() });
+  }
+  const contentStart = r.offset;
+
+  const entries = new Map<string, Uint8Array>();
+  const table = tables.find((t) => t.kind === METADATA_TABLE);
+  if (!table) return entries;
+
+  const end = contentStart + table.offset + table.count;
+  const m = new Reader(bytes, contentStart + table.offset);
+  while (m.offset < end) {
+    const key = new TextDecoder().decode(m.blob());
+    entries.set(key, m.blob());
+  }
+  return entries;
+}
+
+/**
+ * Extract the error map the Aptos compiler stores in a module's
+ * `aptos::metadata_v1` (or v0) entry. Both layouts start with
+ * `error_map: BTreeMap<u64, { code_name, code_description }>`.
+ * Returns null if the bytecode has no error map or can't be parsed.
+ */
+export function parseErrorMap(bytecode: string | Uint8Array): ErrorMap | null {
+  try {
+    const bytes =
+      typeof bytecode === "string"
+        ? Hex.fromHexInput(bytecode).toUint8Array()
+        : bytecode;
+    const entries = readMetadataEntries(bytes);
+    const value = METADATA_KEYS.map((k) => entries.get(k)).find(Boolean);
+    if (!value) return null;
+
+    const r = new Reader(value);
+    const map: ErrorMap = new Map();
+    const count = r.uleb();
+    for (let i = 0; i < count; i++) {
+      const code = Number(r.u64());
+      map.set(code, { name: r.string(), description: r.string() });
+    }
+    return map;
+  } catch {
+    return null;
+  }
+}
+
+// ── Error Map Cache (per-process) ─────────────────────────────────
+
+const errorMapCache = new Map<string, ErrorMap | null>();
+
+/** Record a module's error map from bytecode already fetched elsewhere */
+export function cacheErrorMap(
+  address: string,
+  moduleName: string,
+  bytecode: string | null,
+): void {
+  errorMapCache.set(
+    `${address}::${moduleName}`,
+    bytecode === null ? null : parseErrorMap(bytecode),
+  );
+}
+
+/**
+ * Error map (abort code → `#[error]` name and doc) from the module's
+ * bytecode metadata. Fetches the module once per process; modules already
+ * fetched for ABI validation are reused.
+ */
+export async function fetchErrorMap(
+  aptos: Aptos,
+  address: string,
+  moduleName: string,
+): Promise<ErrorMap | null> {
+  const cacheKey = `${address}::${moduleName}`;
+  if (!errorMapCache.has(cacheKey)) {
+    try {
+      const mod = await aptos.getAccountModule({
+        accountAddress: address,
+        moduleName,
+      });
+      cacheErrorMap(address, moduleName, mod.bytecode);
+    } catch {
+      cacheErrorMap(address, moduleName, null);
+    }
+  }
+  return errorMapCache.get(cacheKey) ?? null;
+}
@@ -9,6 +9,7 @@ import type {
   VaultSnapshot,
 } from "./types.js";
 import { buildAndSimulate } from "../core/transaction.js";
+import { tokenComponents } from "../core/balance.js";
 import {
   captureSnapshot,
   extractBalancesFromSimulation,
@@ -17,7 +18,7 @@ import {
   computeDiff,
   validateExpectations,
 } from "./flow-tracker.js";
-import { diagnoseVmStatus } from "./errors.js";
+import { decodeAbort, diagnoseVmStatus } from "./errors.js";
 import { parseSimulationResult } from "./simulate.js";
 import { formatFlowReport } from "./report.js";
 
@@ -92,7 +93,7 @@ export async function dryRun(
 ): Promise<FlowReport> {
   const tokenRegistry = new Map<string, string>();
   for (const t of plan.tokens) {
-    tokenRegistry.set(t.metadata, t.symbol);
+    for (const key of tokenComponents(t)) tokenRegistry.set(key, t.symbol);
   }
 
   // 1. Capture initial on-chain balances
@@ -145,7 +146,12 @@ export async function dryRun(
     }
 
     // Compute deltas for this step
-    const deltas = computeDeltas(currentBalances, mergedBalances, plan.tokens);
+    const deltas = computeDeltas(
+      currentBalances,
+      mergedBalances,
+      plan.tokens,
+      initialSnapshot.errors,
+    );
 
     // Validate expectations
     const expectationResults = step.expectations
@@ -192,9 +198,18 @@ export async function dryRun(
   );
 
   // 4. Collect all errors and warnings
-  const errors = stepResults
-    .filter((s) => !s.success)
-    .flatMap((s) => diagnoseVmStatus(s.vmStatus, s.label));
+  const failedSteps = stepResults.filter((s) => !s.success);
+  const errors = (
+    await Promise.all(
+      failedSteps.map(async (s) =>
+        diagnoseVmStatus(
+          s.vmStatus,
+          s.label,
+          await decodeAbort(client.aptos, s.vmStatus),
+        ),
+      ),
+    )
+  ).flat();
 
   const warnings = stepResults
     .flatMap((s) =>
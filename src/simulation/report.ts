@@ -1,5 +1,6 @@
 import type { FlowReport } from "./types.js";
-import { formatAmount } from "../core/balance.js";
+import { formatAmount } from "../core/amount.js";
+import { tokenBalance } from "../core/balance.js";
 
 export function formatFlowReport(report: FlowReport): string {
   const lines: string[] = [];
@@ -13,7 +14,7 @@ export function formatFlowReport(report: FlowReport): string {
   // Starting balances
   lines.push("Starting Balances:");
   for (const token of plan.tokens) {
-    const bal = initialSnapshot.balances.get(token.metadata) ?? 0n;
+    const bal = tokenBalance(initialSnapshot.balances, token);
     lines.push(`  ${token.symbol.padEnd(6)} ${formatAmount(bal, token.decimals)}`);
   }
   lines.push("");
@@ -74,7 +75,7 @@ export function formatFlowReport(report: FlowReport): string {
   const lastStep = stepResults[stepResults.length - 1];
   if (lastStep) {
     for (const token of plan.tokens) {
-      const bal = lastStep.balancesAfter.get(token.metadata) ?? 0n;
+      const bal = tokenBalance(lastStep.balancesAfter, token);
       lines.push(`  ${token.symbol.padEnd(6)} ${formatAmount(bal, token.decimals)}`);
     }
   }
@@ -5,6 +5,8 @@ import type {
   BalanceChange,
   VaultChange,
 } from "../types.js";
+import { parseWriteSet } from "./write-set.js";
+import { coinStoreType, sameCoinType } from "./flow-tracker.js";
 
 // ── Type Guards ────────────────────────────────────────────────────
 
@@ -21,6 +23,15 @@ interface FungibleStoreChange {
   };
 }
 
+interface CoinStoreChange {
+  type: "write_resource";
+  address: string;
+  data: {
+    type: string;
+    data: { coin: { value: string } };
+  };
+}
+
 interface VaultWriteChange {
   type: "write_resource";
   address: string;
@@ -54,6 +65,16 @@ function isFungibleStoreChange(change: unknown): change is FungibleStoreChange {
   );
 }
 
+function isCoinStoreChange(change: unknown): change is CoinStoreChange {
+  const c = change as Record<string, unknown>;
+  if (c?.type !== "write_resource") return false;
+  const data = c.data as Record<string, unknown> | undefined;
+  if (!data || typeof data.type !== "string") return false;
+  if (!coinStoreType(data.type)) return false;
+  const inner = data.data as Record<string, unknown> | undefined;
+  return (inner?.coin as Record<string, unknown> | undefined)?.value != null;
+}
+
 function isVaultWriteChange(change: unknown): change is VaultWriteChange {
   const c = change as Record<string, unknown>;
   if (c?.type !== "write_resource") return false;
@@ -85,6 +106,20 @@ function getResponseEvents(raw: UserTransactionResponse): Array<Record<string, u
   return ((raw as Record<string, unknown>).events as Array<Record<string, unknown>>) ?? [];
 }
 
+/**
+ * Ledger version a simulation ran against. The node simulates on its latest
+ * committed state and reports that state's version as the transaction's
+ * `version` (a simulated transaction is never assigned one of its own), so
+ * the version is the pre-state as-is. Undefined if the response carries no
+ * version.
+ */
+export function preStateLedgerVersion(
+  raw: UserTransactionResponse,
+): bigint | undefined {
+  const version = getResponseField(raw, "version");
+  return version ? BigInt(version) : undefined;
+}
+
 // ── Main Parser ───────────────────────────────────────────────────
 
 export function parseSimulationResult(
@@ -104,6 +139,7 @@ export function parseSimulationResult(
     events: parseEvents(raw),
     balanceChanges: parseBalanceChanges(raw, tokenRegistry),
     vaultChanges: parseVaultChanges(raw),
+    writeSet: parseWriteSet(raw),
     raw,
   };
 }
@@ -125,13 +161,16 @@ function parseEvents(raw: UserTransactionResponse): ParsedEvent[] {
   return result;
 }
 
-function resolveTokenSymbol(
+/** Symbol for a metadata address / coin type, or a shortened id if untracked */
+export function resolveTokenSymbol(
   metadata: string,
   registry?: Map<string, string>,
 ): string {
   if (!registry) return metadata.slice(0, 10) + "...";
   for (const [addr, sym] of registry) {
     if (metadata.toLowerCase() === addr.toLowerCase()) return sym;
+    // Coin types may differ in address formatting
+    if (metadata.includes("::") && sameCoinType(metadata, addr)) return sym;
   }
   return metadata.slice(0, 10) + "...";
 }
@@ -142,6 +181,16 @@ function parseBalanceChanges(
 ): BalanceChange[] {
   const result: BalanceChange[] = [];
   for (const change of getResponseChanges(raw)) {
+    if (isCoinStoreChange(change)) {
+      const coinType = coinStoreType(change.data.type)!;
+      result.push({
+        address: change.address,
+        token: resolveTokenSymbol(coinType, tokenRegistry),
+        tokenMetadata: coinType,
+        balance: BigInt(change.data.data.coin.value),
+      });
+      continue;
+    }
     if (!isFungibleStoreChange(change)) continue;
     result.push({
       address: change.address,
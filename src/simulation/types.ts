@@ -6,6 +6,18 @@ export interface BalanceSnapshot {
   owner: string;
   balances: Map<string, bigint>;
   vault?: VaultSnapshot;
+  /** Ledger version the balances were read at (latest if unset) */
+  ledgerVersion?: bigint;
+  /** Components that couldn't be read — absent from `balances`, not zero */
+  errors?: BalanceReadError[];
+}
+
+export interface BalanceReadError {
+  owner: string;
+  token: string;
+  /** Metadata address or coin type that failed (see `tokenComponents`) */
+  component: string;
+  message: string;
 }
 
 export interface VaultSnapshot {
@@ -21,11 +33,32 @@ export interface BalanceDelta {
   after: bigint;
   delta: bigint;
   deltaFormatted: string;
+  /** Set when a component's "before" balance couldn't be read; the delta is unreliable */
+  error?: string;
+}
+
+/**
+ * An address whose balances are tracked: an "owner" account (its primary FA
+ * stores and coin stores) or one explicit fungible "store" object.
+ */
+export interface TrackedParty {
+  address: string;
+  kind: "owner" | "store";
+  label?: string;
+}
+
+export interface PartyBalanceDiff {
+  party: TrackedParty;
+  deltas: BalanceDelta[];
 }
 
 export interface BalanceDiff {
   owner: string;
   deltas: BalanceDelta[];
+  /** Deltas for every tracked party, the sender first (composer only) */
+  parties?: PartyBalanceDiff[];
+  /** Balances that couldn't be read, across all parties */
+  errors?: BalanceReadError[];
   vault?: {
     before: VaultSnapshot | null;
     after: VaultSnapshot | null;
@@ -91,13 +124,25 @@ export interface ExpectationResult {
 
 export type ErrorSeverity = "error" | "warning";
 
+/** Machine-readable remedy attached to a diagnosis */
+export interface DiagnosisSuggestion {
+  text: string;
+  /** Action identifier an agent can act on, e.g. "increase_slippage" */
+  action?: string;
+  params?: Record<string, unknown>;
+}
+
 export interface DiagnosedError {
   severity: ErrorSeverity;
   code: string;
   title: string;
   detail: string;
+  /** Text of the first structured suggestion */
   suggestion: string;
+  suggestions?: DiagnosisSuggestion[];
   stepLabel?: string;
+  /** Id of the registered diagnoser that produced this diagnosis */
+  source?: string;
 }
 
 // ── Flow Report ────────────────────────────────────────────────────
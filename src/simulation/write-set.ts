@@ -0,0 +1,214 @@
+import type {
+  Aptos,
+  MoveStructId,
+  UserTransactionResponse,
+} from "@aptos-labs/ts-sdk";
+import type {
+  SimulationResult,
+  WriteSetChange,
+  WriteSetFilter,
+} from "../types.js";
+import { preStateLedgerVersion } from "./simulate.js";
+import { addressKey, isNotFound } from "../core/util.js";
+
+const OBJECT_CORE = "0x1::object::ObjectCore";
+
+// ── Extraction ────────────────────────────────────────────────────
+
+/** `ObjectCore.owner` from a resource value, if it is one */
+function objectOwner(resourceType: string, value: unknown): string | undefined {
+  if (resourceType !== OBJECT_CORE) return undefined;
+  const owner = (value as Record<string, unknown> | null)?.owner;
+  return typeof owner === "string" ? owner : undefined;
+}
+
+/**
+ * Every resource and table item write/delete in a transaction's write set.
+ * `after` comes from the write set; `before` is left null until
+ * `fetchWriteSetPreState` fills it from the node.
+ */
+export function parseWriteSet(raw: UserTransactionResponse): WriteSetChange[] {
+  const changes =
+    ((raw as Record<string, unknown>).changes as Array<Record<string, unknown>>) ?? [];
+  const result: WriteSetChange[] = [];
+
+  for (const c of changes) {
+    const stateKeyHash = String(c.state_key_hash ?? "");
+    switch (c.type) {
+      case "write_resource": {
+        const data = c.data as { type: string; data: unknown };
+        result.push({
+          kind: "resource",
+          op: "write",
+          account: String(c.address),
+          resourceType: data.type,
+          before: null,
+          after: data.data,
+          stateKeyHash,
+          preStateFetched: false,
+        });
+        break;
+      }
+      case "delete_resource":
+        result.push({
+          kind: "resource",
+          op: "delete",
+          account: String(c.address),
+          resourceType: String(c.resource),
+          before: null,
+          after: null,
+          stateKeyHash,
+          preStateFetched: false,
+        });
+        break;
+      case "write_table_item":
+      case "delete_table_item": {
+        const data = c.data as Record<string, unknown> | null | undefined;
+        result.push({
+          kind: "table_item",
+          op: c.type === "write_table_item" ? "write" : "delete",
+          account: String(c.handle),
+          resourceType: typeof data?.value_type === "string" ? data.value_type : "unknown",
+          key: data?.key ?? c.key,
+          keyType: typeof data?.key_type === "string" ? data.key_type : undefined,
+          before: null,
+          after: c.type === "write_table_item" ? (data?.value ?? c.value) : null,
+          stateKeyHash,
+          preStateFetched: false,
+        });
+        break;
+      }
+    }
+  }
+
+  // Object owners visible in the write set itself
+  const owners = new Map<string, string>();
+  for (const c of result) {
+    const owner = objectOwner(c.resourceType, c.after);
+    if (c.kind === "resource" && owner) owners.set(addressKey(c.account), owner);
+  }
+  for (const c of result) {
+    if (c.kind === "resource") c.owner = owners.get(addressKey(c.account));
+  }
+
+  return result;
+}
+
+// ── Pre-State ─────────────────────────────────────────────────────
+
+/**
+ * Fill `before` for every change from the node at the ledger version the
+ * simulation ran against, and resolve object owners for touched accounts
+ * whose `ObjectCore` wasn't written. Writes become "create" or "modify" once the pre-state is
+ * known. Deleted table items carry no value type and keep `before` null.
+ */
+export async function fetchWriteSetPreState(
+  aptos: Aptos,
+  simulation: SimulationResult,
+): Promise<WriteSetChange[]> {
+  const ledgerVersion = preStateLedgerVersion(simulation.raw);
+  const options = ledgerVersion !== undefined ? { ledgerVersion } : undefined;
+
+  const readResource = async (account: string, resourceType: string) => {
+    try {
+      return await aptos.getAccountResource({
+        accountAddress: account,
+        resourceType: resourceType as MoveStructId,
+        options,
+      });
+    } catch (e) {
+      if (isNotFound(e)) return null;
+      throw e;
+    }
+  };
+
+  await Promise.all(
+    simulation.writeSet.map(async (c) => {
+      try {
+        if (c.kind === "resource") {
+          c.before = await readResource(c.account, c.resourceType);
+        } else if (c.keyType && c.resourceType !== "unknown") {
+          c.before = await aptos
+            .getTableItem({
+              handle: c.account,
+              data: { key_type: c.keyType, value_type: c.resourceType, key: c.key },
+              options,
+            })
+            .catch((e: unknown) => {
+              if (isNotFound(e)) return null;
+              throw e;
+            });
+        } else {
+          return;
+        }
+      } catch {
+        // Leave this entry without pre-state rather than failing the whole diff
+        return;
+      }
+      c.preStateFetched = true;
+      if (c.op === "write") c.op = c.before === null ? "create" : "modify";
+    }),
+  );
+
+  // Owners of touched objects whose ObjectCore didn't change
+  const unresolved = new Set(
+    simulation.writeSet
+      .filter((c) => c.kind === "resource" && c.owner === undefined)
+      .map((c) => addressKey(c.account)),
+  );
+  const owners = new Map<string, string>();
+  for (const c of simulation.writeSet) {
+    const owner = objectOwner(c.resourceType, c.before);
+    if (c.kind === "resource" && owner) {
+      owners.set(addressKey(c.account), owner);
+      unresolved.delete(addressKey(c.account));
+    }
+  }
+  await Promise.all(
+    [...unresolved].map(async (account) => {
+      try {
+        const core = await readResource(account, OBJECT_CORE);
+        const owner = objectOwner(OBJECT_CORE, core);
+        if (owner) owners.set(account, owner);
+      } catch {
+        // Unknown owner — the entry just won't match owner filters
+      }
+    }),
+  );
+  for (const c of simulation.writeSet) {
+    if (c.kind === "resource" && c.owner === undefined) {
+      c.owner = owners.get(addressKey(c.account));
+    }
+  }
+
+  return simulation.writeSet;
+}
+
+// ── Filtering ─────────────────────────────────────────────────────
+
+/** Select write-set changes, e.g. `{ owner: wallet }` for everything a wallet owns */
+export function filterWriteSet(
+  changes: WriteSetChange[],
+  filter: WriteSetFilter,
+): WriteSetChange[] {
+  const owner = filter.owner ? addressKey(filter.owner) : null;
+  const account = filter.account ? addressKey(filter.account) : null;
+
+  return changes.filter((c) => {
+    if (filter.kind && c.kind !== filter.kind) return false;
+    if (filter.op && c.op !== filter.op) return false;
+    if (account && addressKey(c.account) !== account) return false;
+    if (owner) {
+      const atOwner = addressKey(c.account) === owner;
+      const owned = c.owner !== undefined && addressKey(c.owner) === owner;
+      if (!atOwner && !owned) return false;
+    }
+    if (filter.resourceType !== undefined) {
+      const t = filter.resourceType;
+      if (typeof t === "string" ? !c.resourceType.includes(t) : !t.test(c.resourceType)) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
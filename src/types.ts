@@ -1,6 +1,8 @@
 import type {
   Account,
   AccountAddress,
+  AccountAuthenticator,
+  AnyRawTransaction,
   Aptos,
   AptosConfig,
   Network,
@@ -8,6 +10,9 @@ import type {
   CommittedTransactionResponse,
   SimpleTransaction,
   Ed25519PublicKey,
+  PublicKey,
+  EntryFunctionArgumentTypes,
+  SimpleEntryFunctionArgumentTypes,
 } from "@aptos-labs/ts-sdk";
 import type {
   CallArgument,
@@ -16,29 +21,100 @@ import type {
 
 // ── Token ─────────────────────────────────────────────────────────────
 
+/**
+ * A tracked token: a fungible asset (`metadata`), a legacy coin
+ * (`coinType`, e.g. `0x1::aptos_coin::AptosCoin`), or both for a coin and
+ * its paired FA, whose balances are summed.
+ */
 export interface TokenConfig {
   symbol: string;
-  metadata: string;
+  /** FA metadata address */
+  metadata?: string;
+  /** Legacy coin type held in `0x1::coin::CoinStore<T>` */
+  coinType?: string;
   decimals: number;
+  /** Display name and icon, filled in by `resolveToken` */
+  name?: string;
+  iconUri?: string;
 }
 
+/** A token config, or just its id (FA metadata address or coin type) to resolve from chain */
+export type TokenInput = TokenConfig | string;
+
 // ── Network + Wallet ──────────────────────────────────────────────────
 
+/**
+ * Account key scheme, which decides how `privateKey` / `publicKey` are read:
+ * - `ed25519`: legacy Ed25519 account (default), 32-byte key hex
+ * - `single_key_ed25519`: Ed25519 key on a unified single-key account
+ * - `secp256k1`: Secp256k1 single-key account, 65-byte uncompressed public key hex
+ * - `multi_ed25519`, `multi_key`, `keyless`: BCS-serialized `MultiEd25519PublicKey`,
+ *   `MultiKey` or `KeylessPublicKey` hex (public key or `signer` only)
+ */
+export type KeyScheme =
+  | "ed25519"
+  | "single_key_ed25519"
+  | "secp256k1"
+  | "multi_ed25519"
+  | "multi_key"
+  | "keyless";
+
 export interface ToolkitConfig {
   network: Network;
   apiKey?: string;
-  /** Private key (hex or ed25519-priv- prefixed). Enables execution. */
+  /** Private key (hex, or AIP-80 ed25519-priv- / secp256k1-priv- prefixed). Enables execution. */
   privateKey?: string;
   /** Public key hex. For simulation-only mode (no private key). */
   publicKey?: string;
+  /** Scheme of `privateKey` / `publicKey` (default: ed25519, or inferred from the AIP-80 prefix) */
+  scheme?: KeyScheme;
+  /**
+   * Account address, for accounts whose auth key was rotated (the key no
+   * longer derives it). Default: derived from the key.
+   */
+  address?: string;
+  /** External signer (KMS, wallet, hardware). Enables execution without a private key. */
+  signer?: Signer;
+  /** Sponsors gas for transactions built with `withFeePayer` */
+  feePayer?: FeePayerConfig;
+  /** Retry policy of `client.submissions` */
+  submission?: SubmissionQueueOptions;
 }
 
+/** Produces one signer's authenticator for a transaction, e.g. a wallet or a remote service */
+export type SignTransactionFn = (
+  transaction: AnyRawTransaction,
+) => Promise<AccountAuthenticator>;
+
+/**
+ * Signs as the sender in place of a local private key. `publicKey` is
+ * used for simulation; `signTransaction` runs only at execute time.
+ */
+export interface Signer {
+  readonly accountAddress: AccountAddress;
+  readonly publicKey: PublicKey;
+  signTransaction: SignTransactionFn;
+}
+
+/** Co-signs a sponsored transaction as fee payer, e.g. via a sponsor service */
+export type FeePayerSignFn = SignTransactionFn;
+
+/**
+ * A fee payer: a local private key, or an address plus a signing callback.
+ * With a callback, `publicKey` lets simulations check the sponsor's signature.
+ */
+export type FeePayerConfig =
+  | { privateKey: string; scheme?: KeyScheme }
+  | { address: string; publicKey?: string; scheme?: KeyScheme; sign: FeePayerSignFn };
+
 // ── Transaction Payloads ──────────────────────────────────────────────
 
 export interface EntryFunctionPayload {
   function: `${string}::${string}::${string}`;
   typeArguments: string[];
-  functionArguments: (string | number | bigint | boolean | string[])[];
+  functionArguments: Array<
+    EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes
+  >;
 }
 
 // ── Simulation Results ────────────────────────────────────────────────
@@ -52,6 +128,8 @@ export interface SimulationResult {
   events: ParsedEvent[];
   balanceChanges: BalanceChange[];
   vaultChanges: VaultChange[];
+  /** Every resource / table item change; `before` is filled by `fetchWriteSetPreState` */
+  writeSet: WriteSetChange[];
   raw: UserTransactionResponse;
 }
 
@@ -65,6 +143,7 @@ export interface ParsedEvent {
 export interface BalanceChange {
   address: string;
   token: string;
+  /** FA metadata address, or the coin type for a legacy `CoinStore` */
   tokenMetadata: string;
   balance: bigint;
 }
@@ -75,6 +154,42 @@ export interface VaultChange {
   debtPrincipal: bigint;
 }
 
+export interface ResourceDiff {
+  account: string;
+  resourceType: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * One entry of a transaction's write set. For table items, `account` is the
+ * table handle and `resourceType` the value type ("unknown" if the node
+ * didn't decode it). `op` is "write" until the pre-state is known, then
+ * "create" or "modify".
+ */
+export interface WriteSetChange extends ResourceDiff {
+  kind: "resource" | "table_item";
+  op: "write" | "create" | "modify" | "delete";
+  stateKeyHash: string;
+  /** Table item key (decoded when the node provides it) */
+  key?: unknown;
+  keyType?: string;
+  /** Owner of the object at `account`, from `0x1::object::ObjectCore` */
+  owner?: string;
+  /** Whether `before` reflects node state at the simulation's ledger version */
+  preStateFetched: boolean;
+}
+
+export interface WriteSetFilter {
+  /** Changes at this address or on objects it owns */
+  owner?: string;
+  account?: string;
+  /** Substring or pattern matched against the resource / value type */
+  resourceType?: string | RegExp;
+  kind?: WriteSetChange["kind"];
+  op?: WriteSetChange["op"];
+}
+
 // ── Execution Results ─────────────────────────────────────────────────
 
 export interface ExecutionResult {
@@ -85,6 +200,41 @@ export interface ExecutionResult {
   response: CommittedTransactionResponse;
 }
 
+// ── Submission ────────────────────────────────────────────────────────
+
+/**
+ * A transaction for `SubmissionQueue`. `build` is called with each
+ * sequence number the queue assigns, again on every retry.
+ */
+export interface SubmissionJob {
+  build: (sequenceNumber: bigint) => Promise<AnyRawTransaction>;
+  description?: string;
+  /** Co-signers of a multi-agent transaction, in order */
+  secondarySigners?: SignTransactionFn[];
+}
+
+export type SubmissionStatus = "submitted" | "committed" | "failed" | "expired" | "retrying";
+
+export interface SubmissionEvent {
+  /** Per-queue job id, shared by all attempts of one job */
+  id: number;
+  status: SubmissionStatus;
+  sequenceNumber: bigint;
+  /** 1 for the first attempt */
+  attempt: number;
+  description?: string;
+  hash?: string;
+  /** Why the attempt failed or is being retried */
+  error?: string;
+  /** Set on "committed", and on "failed" once the transaction executed */
+  result?: ExecutionResult;
+}
+
+export interface SubmissionQueueOptions {
+  /** Rebuild-and-resubmit attempts after an expiry or sequence mismatch (default: 2) */
+  maxRetries?: number;
+}
+
 // ── Composable Actions ────────────────────────────────────────────────
 
 export interface ComposableAction {
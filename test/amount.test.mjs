@@ -0,0 +1,21 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isAmountString, parseAmount } from "../dist/core/amount.js";
+
+test("separators must group thousands", () => {
+  assert.equal(parseAmount("1,000", 6), 1_000_000_000n);
+  assert.equal(parseAmount("12_345_678.5", 1), 123_456_785n);
+  for (const bad of ["1,00,0", "1,0000", "1000,000", ",100", "100,", "1__000", "1,000_000"]) {
+    assert.throws(() => parseAmount(bad, 6), /misplaced separator|Invalid amount/, bad);
+    assert.equal(isAmountString(bad), false, bad);
+  }
+});
+
+test("isAmountString accepts what parseAmount reads", () => {
+  for (const ok of ["1.5", "-0.25", "+1,234.5", ".5", "7"]) {
+    assert.equal(isAmountString(ok), true, ok);
+  }
+  for (const bad of ["", ".", "+", "1.2.3", "abc"]) {
+    assert.equal(isAmountString(bad), false, bad);
+  }
+});
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { attributeSteps } from "../dist/dynamic/attribution.js";
+
+const event = (type, data = {}) => ({ type, shortType: type.split("::").pop(), data });
+const sim = (gasUsed, events, success = true) => ({
+  success,
+  vmStatus: success ? "Executed successfully" : "Move abort in 0x1::m: E_FAIL(0x1)",
+  gasUsed,
+  events,
+});
+
+const withdraw = event("0x1::fungible_asset::Withdraw", { amount: "100" });
+const deposit = event("0x1::fungible_asset::Deposit", { amount: "100" });
+const swap = event("0x2::pool::Swap", { amount_in: "100" });
+
+test("gas and events go to the step whose prefix first has them", () => {
+  const full = sim(30, [withdraw, swap, deposit]);
+  const attribution = attributeSteps(
+    ["withdraw", "swap", "deposit"],
+    [sim(10, [withdraw]), sim(25, [withdraw, swap]), full],
+    full,
+  );
+  assert.deepEqual(
+    attribution.map((a) => [a.label, a.status, a.gasUsed, a.events.map((e) => e.shortType)]),
+    [
+      ["withdraw", "ok", 10, ["Withdraw"]],
+      ["swap", "ok", 15, ["Swap"]],
+      ["deposit", "ok", 5, ["Deposit"]],
+    ],
+  );
+});
+
+test("a prefix whose events diverge from the full run keeps only the shared ones", () => {
+  // The prefix's own deposit differs from the full run's: it belongs to no step yet
+  const full = sim(20, [withdraw, deposit]);
+  const attribution = attributeSteps(
+    ["withdraw", "deposit"],
+    [sim(12, [withdraw, event("0x1::fungible_asset::Deposit", { amount: "1" })]), full],
+    full,
+  );
+  assert.deepEqual(attribution.map((a) => a.events), [[withdraw], [deposit]]);
+  assert.deepEqual(attribution.map((a) => a.gasUsed), [12, 8]);
+});
+
+test("the first failing prefix marks its step failed and the rest not reached", () => {
+  const full = sim(18, [withdraw], false);
+  const failing = sim(18, [], false);
+  const attribution = attributeSteps(
+    ["withdraw", "swap", "deposit"],
+    [sim(10, [withdraw]), failing],
+    full,
+  );
+  assert.deepEqual(
+    attribution.map((a) => [a.label, a.status, a.gasUsed]),
+    [
+      ["withdraw", "ok", 10],
+      ["swap", "failed", 8],
+      ["deposit", "not_reached", 0],
+    ],
+  );
+  assert.equal(attribution[1].vmStatus, failing.vmStatus);
+});
+
+test("gas never goes negative when a longer prefix reports less", () => {
+  const full = sim(9, []);
+  const attribution = attributeSteps(["a", "b"], [sim(10, []), full], full);
+  assert.deepEqual(attribution.map((a) => a.gasUsed), [10, 0]);
+});
@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCoinBalance } from "../dist/core/balance.js";
+
+const failing = (status) => ({
+  getAccountResource: async () => {
+    throw Object.assign(new Error(`status ${status}`), { status });
+  },
+});
+
+test("getCoinBalance is 0 without a store and throws on node errors", async () => {
+  assert.equal(await getCoinBalance(failing(404), "0x1", "0x1::aptos_coin::AptosCoin"), 0n);
+  await assert.rejects(
+    getCoinBalance(failing(500), "0x1", "0x1::aptos_coin::AptosCoin"),
+    /status 500/,
+  );
+});
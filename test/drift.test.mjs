@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compareResults, DriftError, formatDriftReport } from "../dist/dynamic/drift.js";
+
+const OWNER = "0x" + "5".repeat(64);
+const USDC = { symbol: "USDC", metadata: "0xa", decimals: 6 };
+const WETH = { symbol: "WETH", metadata: "0xe", decimals: 8 };
+
+const result = ({ deltas = [], gasUsed = 1000, success = true, planHash = "h", guards = [], at = 0 }) => ({
+  success,
+  simulation: {
+    success,
+    vmStatus: success ? "Executed successfully" : "Move abort in 0x1::m: E_FAIL(0x1)",
+    gasUsed,
+    events: [],
+  },
+  balanceDiff: {
+    owner: OWNER,
+    deltas: deltas.map(([token, delta]) => ({
+      token,
+      before: 0n,
+      after: delta,
+      delta,
+      deltaFormatted: String(delta),
+    })),
+  },
+  guards,
+  planHash,
+  simulatedAt: at,
+});
+
+test("a delta within deltaBps isn't drift; one past it is", () => {
+  const original = result({ deltas: [[USDC, 1_000_000n]] });
+  const within = compareResults(original, result({ deltas: [[USDC, 995_000n]] }));
+  assert.equal(within.drifted, false);
+  assert.deepEqual(
+    within.tokens.map((t) => [t.difference, t.differenceBps, t.exceeded]),
+    [[-5000n, 50, false]],
+  );
+
+  const past = compareResults(original, result({ deltas: [[USDC, 994_900n]] }));
+  assert.equal(past.drifted, true);
+  assert.deepEqual(past.tokens.map((t) => [t.differenceBps, t.exceeded]), [[51, true]]);
+
+  const tighter = compareResults(original, result({ deltas: [[USDC, 998_000n]] }), { deltaBps: 10 });
+  assert.equal(tighter.drifted, true);
+  assert.match(tighter.reasons[0], /USDC delta for 0x555555\.\.\. moved -0\.002000 \(20 bps, tolerance 10 bps\)/);
+});
+
+test("a token only one side tracked counts from zero", () => {
+  const report = compareResults(
+    result({ deltas: [[USDC, 1_000_000n]] }),
+    result({ deltas: [[USDC, 1_000_000n], [WETH, 1n]] }),
+  );
+  assert.equal(report.drifted, true);
+  assert.deepEqual(report.tokens.map((t) => [t.token.symbol, t.differenceBps]), [["WETH", Infinity]]);
+  assert.match(report.reasons[0], /from zero/);
+});
+
+test("only a gas increase past gasBps is drift", () => {
+  const original = result({ gasUsed: 1000 });
+  assert.equal(compareResults(original, result({ gasUsed: 1200 })).drifted, false);
+  assert.equal(compareResults(original, result({ gasUsed: 100 })).gas.differenceBps, -9000);
+
+  const report = compareResults(original, result({ gasUsed: 1201 }));
+  assert.equal(report.drifted, true);
+  assert.equal(report.gas.exceeded, true);
+  assert.deepEqual(report.reasons, ["gas rose from 1000 to 1201 (tolerance 2000 bps)"]);
+  assert.equal(compareResults(original, result({ gasUsed: 1201 }), { gasBps: 5000 }).drifted, false);
+});
+
+test("a failed re-simulation is drift even if the original failed too", () => {
+  const failed = result({ success: false });
+  const report = compareResults(failed, result({ success: false }));
+  assert.equal(report.drifted, true);
+  assert.match(report.reasons[0], /^re-simulation failed: Move abort/);
+  assert.deepEqual(compareResults(failed, result({})).reasons, [
+    "re-simulation succeeded where the original failed",
+  ]);
+});
+
+test("a changed plan or a failed guard is drift", () => {
+  const report = compareResults(
+    result({ at: 1000 }),
+    result({
+      planHash: "other",
+      guards: [{ passed: false, message: "USDC delta >= +1.000000", actual: "+0.5" }],
+      at: 43300,
+    }),
+  );
+  assert.deepEqual(report.reasons, [
+    "plan changed since the original simulation",
+    "guard failed: USDC delta >= +1.000000 (actual +0.5)",
+  ]);
+  assert.equal(report.elapsedMs, 42300);
+  const error = new DriftError(report);
+  assert.equal(error.report, report);
+  assert.equal(error.message, `Refusing to execute: ${formatDriftReport(report)}`);
+  assert.match(error.message, /^Refusing to execute: Drift after 42\.3s: DRIFTED\n  plan changed/);
+});
@@ -0,0 +1,151 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Account, Network } from "@aptos-labs/ts-sdk";
+import { AptosClient } from "../dist/core/client.js";
+import { DynamicComposer } from "../dist/dynamic/composer.js";
+import { checkGuard, evaluateGuards, onChainGuardSteps } from "../dist/dynamic/guards.js";
+
+const SENDER = "0x" + "5".repeat(64);
+const BOB = "0x" + "b".repeat(64);
+const USDC = { symbol: "USDC", metadata: "0xa", decimals: 6 };
+const APT = { symbol: "APT", coinType: "0x1::aptos_coin::AptosCoin", decimals: 8 };
+
+const delta = (token, value, extra = {}) => ({
+  token,
+  before: 0n,
+  after: value,
+  delta: value,
+  deltaFormatted: String(value),
+  ...extra,
+});
+
+const simulation = {
+  success: true,
+  vmStatus: "Executed successfully",
+  gasUsed: 500,
+  events: [
+    { type: "0x2::pool::Swap", shortType: "Swap", data: {} },
+    { type: "0x2::pool::Swap", shortType: "Swap", data: {} },
+  ],
+};
+
+const balanceDiff = {
+  owner: SENDER,
+  deltas: [delta(USDC, 995_500000n), delta(APT, -1_00000000n)],
+  parties: [
+    { party: { address: SENDER, kind: "owner" }, deltas: [] },
+    { party: { address: "0xb", kind: "owner" }, deltas: [delta(USDC, 5n, { error: "timeout" })] },
+  ],
+};
+
+// ── evaluateGuards ────────────────────────────────────────────────
+
+test("delta guards compare against the token's base units", () => {
+  const results = evaluateGuards(
+    [
+      { kind: "min_delta", token: "USDC", amount: "995.5" },
+      { kind: "min_delta", token: "0xa", amount: "995500001n" },
+      { kind: "max_delta", token: "0x1::aptos_coin::AptosCoin", amount: "-1" },
+      { kind: "max_delta", token: "APT", amount: -1_00000001n },
+    ],
+    simulation,
+    balanceDiff,
+    SENDER,
+  );
+  assert.deepEqual(results.map((r) => r.passed), [true, false, true, false]);
+  assert.equal(results[0].message, "USDC delta >= +995.500000");
+});
+
+test("an untracked token or an unreadable balance fails the guard", () => {
+  const [untracked, otherParty, unreadable] = evaluateGuards(
+    [
+      { kind: "min_delta", token: "WETH", amount: "1" },
+      { kind: "min_delta", token: "APT", amount: "0", owner: BOB },
+      { kind: "min_delta", token: "USDC", amount: "0", owner: "0xb" },
+    ],
+    simulation,
+    balanceDiff,
+    SENDER,
+  );
+  assert.deepEqual([untracked.passed, untracked.actual], [false, "untracked"]);
+  assert.deepEqual([otherParty.passed, otherParty.actual], [false, "untracked"]);
+  assert.deepEqual([unreadable.passed, unreadable.actual], [false, "unknown"]);
+  assert.match(unreadable.message, /balance read failed: timeout/);
+});
+
+test("gas and event guards read the simulation", () => {
+  const results = evaluateGuards(
+    [
+      { kind: "max_gas", gasUnits: 500 },
+      { kind: "max_gas", gasUnits: 499 },
+      { kind: "event", type: "0x2::pool::Swap", minCount: 2 },
+      { kind: "event", type: "Swap", minCount: 3 },
+    ],
+    simulation,
+    null,
+    SENDER,
+  );
+  assert.deepEqual(results.map((r) => r.passed), [true, false, true, false]);
+  assert.equal(results[3].actual, "2 event(s)");
+});
+
+// ── checkGuard ────────────────────────────────────────────────────
+
+test("malformed guards are rejected when added", () => {
+  const rejects = (guard, pattern) => assert.throws(() => checkGuard(guard, SENDER), pattern);
+  rejects({ kind: "min_delta", token: " ", amount: "1" }, /empty token/);
+  rejects({ kind: "max_delta", token: "USDC", amount: "one" }, /invalid amount "one"/);
+  rejects({ kind: "min_delta", token: "USDC", amount: "1", owner: "bob" }, /not a valid address/);
+  rejects(
+    { kind: "min_delta", token: "USDC", amount: "1", owner: BOB, onChain: true },
+    /only check the sender's balance/,
+  );
+  rejects({ kind: "max_gas", gasUnits: 0 }, /positive integer, got 0/);
+  rejects({ kind: "event", type: "Swap" }, /not a Move event type/);
+  rejects({ kind: "event", type: "0x2::pool::Swap", minCount: 0 }, /positive integer, got 0/);
+
+  checkGuard({ kind: "min_delta", token: "USDC", amount: "12n", owner: SENDER, onChain: true }, SENDER);
+});
+
+// ── onChainGuardSteps ─────────────────────────────────────────────
+
+test("on-chain guards read the balance before and withdraw the minimum after", () => {
+  const { before, after } = onChainGuardSteps(
+    [
+      { kind: "max_gas", gasUnits: 1000 },
+      { kind: "min_delta", token: "USDC", amount: "995.5", onChain: true },
+      { kind: "min_delta", token: "USDC", amount: "1" },
+    ],
+    [USDC, APT],
+    SENDER,
+  );
+  assert.deepEqual(before.map((s) => s.label), ["guard.1.before"]);
+  assert.deepEqual(after.map((s) => s.label), [
+    "guard.1.hold",
+    "guard.1.check",
+    "guard.1.release",
+    "guard.1.releaseCheck",
+  ]);
+  assert.deepEqual(after[0].step.args[2], { kind: "ref", step: "guard.1.before", returnIndex: 0, mode: "move" });
+  assert.deepEqual(after[1].step.args[2], { kind: "literal", value: { type: "u64", value: 995500000n } });
+});
+
+test("on-chain guards need a tracked FA token and a non-negative minimum", () => {
+  const steps = (guard) => () => onChainGuardSteps([{ ...guard, onChain: true }], [USDC, APT], SENDER);
+  assert.throws(steps({ kind: "min_delta", token: "WETH", amount: "1" }), /"WETH" is not tracked/);
+  assert.throws(steps({ kind: "min_delta", token: "APT", amount: "1" }), /no fungible asset metadata/);
+  assert.throws(steps({ kind: "min_delta", token: "USDC", amount: "-1" }), /must be non-negative/);
+});
+
+test("user steps can't take the on-chain guard labels", () => {
+  const client = new AptosClient({
+    network: Network.TESTNET,
+    publicKey: Account.generate().publicKey.toString(),
+  });
+  const composer = new DynamicComposer(client);
+  assert.throws(
+    () => composer.addStep("guard.1.check", { function: "0x1::m::f", args: [] }),
+    /is reserved/,
+  );
+  composer.addStep("guarded", { function: "0x1::m::f", args: [] });
+});
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Hex, Serializer } from "@aptos-labs/ts-sdk";
+import { parseErrorMap } from "../dist/simulation/module-metadata.js";
+
+const MODULE_HANDLES = 0x01;
+const METADATA = 0x10;
+
+/** BCS `RuntimeModuleMetadataV1` with the given error map and no attributes */
+function metadataV1(errors) {
+  const s = new Serializer();
+  s.serializeU32AsUleb128(errors.length);
+  for (const [code, name, description] of errors) {
+    s.serializeU64(code);
+    s.serializeStr(name);
+    s.serializeStr(description);
+  }
+  s.serializeU32AsUleb128(0); // struct_attributes
+  s.serializeU32AsUleb128(0); // fun_attributes
+  return s.toUint8Array();
+}
+
+/**
+ * A module binary laid out as the compiler writes it: magic, version, table
+ * headers (kind, offset, length), then table contents. A filler table sits
+ * ahead of the metadata table so its offset isn't zero.
+ */
+function moduleBinary(entries) {
+  const metadata = new Serializer();
+  for (const [key, value] of entries) {
+    metadata.serializeStr(key);
+    metadata.serializeBytes(value);
+  }
+  const filler = new Uint8Array([0x00, 0x00, 0x00]);
+  const content = metadata.toUint8Array();
+
+  const s = new Serializer();
+  s.serializeFixedBytes(new Uint8Array([0xa1, 0x1c, 0xeb, 0x0b]));
+  s.serializeU32(7);
+  s.serializeU32AsUleb128(entries.length > 0 ? 2 : 1);
+  for (const [kind, offset, length] of [
+    [MODULE_HANDLES, 0, filler.length],
+    ...(entries.length > 0 ? [[METADATA, filler.length, content.length]] : []),
+  ]) {
+    s.serializeU8(kind);
+    s.serializeU32AsUleb128(offset);
+    s.serializeU32AsUleb128(length);
+  }
+  s.serializeFixedBytes(filler);
+  if (entries.length > 0) s.serializeFixedBytes(content);
+  return s.toUint8Array();
+}
+
+const ERRORS = [
+  [1n, "ENOT_OWNER", "The caller doesn't own the object"],
+  [0x10006n, "E_PRICE_LIMIT", "Price exceeds limit"],
+];
+
+test("reads the error map from aptos::metadata_v1", () => {
+  const bytecode = Hex.fromHexInput(
+    moduleBinary([["aptos::metadata_v1", metadataV1(ERRORS)]]),
+  ).toString();
+  const map = parseErrorMap(bytecode);
+  assert.deepEqual([...map], [
+    [1, { name: "ENOT_OWNER", description: "The caller doesn't own the object" }],
+    [0x10006, { name: "E_PRICE_LIMIT", description: "Price exceeds limit" }],
+  ]);
+});
+
+test("falls back to aptos::metadata_v0 and ignores other keys", () => {
+  const map = parseErrorMap(
+    moduleBinary([
+      ["other::metadata", new Uint8Array([1, 2, 3])],
+      ["aptos::metadata_v0", metadataV1(ERRORS.slice(0, 1))],
+    ]),
+  );
+  assert.deepEqual([...map.keys()], [1]);
+});
+
+test("null without a metadata table or for bytes that aren't a module", () => {
+  assert.equal(parseErrorMap(moduleBinary([])), null);
+  assert.equal(parseErrorMap("0x"), null);
+  assert.equal(parseErrorMap(new Uint8Array([0xde, 0xad, 0xbe, 0xef])), null);
+  const truncated = moduleBinary([["aptos::metadata_v1", metadataV1(ERRORS)]]);
+  assert.equal(parseErrorMap(truncated.subarray(0, truncated.length - 4)), null);
+});
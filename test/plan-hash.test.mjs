@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { hashPlan } from "../dist/dynamic/plan-hash.js";
+
+const POOL = "0x" + "a".repeat(64);
+
+test("default arg fields hash the same as spelled-out ones", () => {
+  const terse = {
+    steps: [
+      { label: "a", function: "0x1::m::f", args: [{ kind: "signer" }] },
+      {
+        label: "b",
+        function: "0x1::m::g",
+        typeArguments: [],
+        args: [
+          { kind: "ref", step: "a", returnIndex: 0 },
+          { kind: "literal", value: { type: "u64", value: 100 } },
+          { kind: "literal", value: { type: "address", value: POOL } },
+        ],
+      },
+    ],
+  };
+  const explicit = {
+    steps: [
+      { label: "a", function: "0x1::m::f", args: [{ kind: "signer", index: 0 }] },
+      {
+        label: "b",
+        function: "0x1::m::g",
+        args: [
+          { kind: "ref", step: "a", returnIndex: 0, mode: "move" },
+          { kind: "literal", value: { type: "u64", value: "100n" } },
+          { kind: "literal", value: { type: "address", value: POOL } },
+        ],
+      },
+    ],
+  };
+  assert.equal(hashPlan(terse), hashPlan(explicit));
+});
+
+test("defaults are normalized inside sub-plans and sub-plan inputs", () => {
+  const plan = (ref, signer) => ({
+    subPlans: {
+      wrap: { inputs: ["x"], steps: [{ label: "w", function: "0x1::m::f", args: [ref] }] },
+    },
+    steps: [
+      { label: "a", function: "0x1::m::f", args: [signer] },
+      { label: "s", use: "wrap", inputs: { x: ref } },
+    ],
+  });
+  assert.equal(
+    hashPlan(plan({ kind: "ref", step: "a", returnIndex: 0 }, { kind: "signer" })),
+    hashPlan(
+      plan({ kind: "ref", step: "a", returnIndex: 0, mode: "move" }, { kind: "signer", index: 0 }),
+    ),
+  );
+});
+
+test("non-default values still change the hash", () => {
+  const withMode = (mode) => ({
+    steps: [{ label: "b", function: "0x1::m::g", args: [{ kind: "ref", step: "a", returnIndex: 0, mode }] }],
+  });
+  assert.notEqual(hashPlan(withMode("move")), hashPlan(withMode("borrow")));
+  const withSigner = (index) => ({
+    steps: [{ label: "a", function: "0x1::m::f", args: [{ kind: "signer", index }] }],
+  });
+  assert.notEqual(hashPlan(withSigner(0)), hashPlan(withSigner(1)));
+});
+
+test("build options are hashed only when set", () => {
+  const plan = { steps: [{ label: "a", function: "0x1::m::f", args: [] }] };
+  assert.equal(hashPlan(plan, {}), hashPlan(plan));
+  assert.equal(hashPlan(plan, { withFeePayer: false, sequenceNumber: 7n }), hashPlan(plan));
+  assert.notEqual(hashPlan(plan, { autoSweep: true }), hashPlan(plan));
+  assert.equal(hashPlan(plan, { autoSweep: true }), hashPlan(plan, { autoSweep: {} }));
+  assert.notEqual(hashPlan(plan, { withFeePayer: true }), hashPlan(plan, { autoSweep: true }));
+});
+
+test("short and long addresses hash the same", () => {
+  const plan = (addr) => ({
+    signers: [addr("0xb")],
+    steps: [
+      {
+        label: "a",
+        function: `${addr("0x1")}::coin::transfer`,
+        typeArguments: [`${addr("0x1")}::aptos_coin::AptosCoin`],
+        args: [
+          { kind: "signer" },
+          { kind: "literal", value: { type: "address", value: addr("0xb") } },
+          {
+            kind: "literal",
+            value: { type: "vector", elementType: `${addr("0x1")}::object::Object<${addr("0xa")}::m::T>`, items: [] },
+          },
+        ],
+      },
+    ],
+  });
+  const long = (a) => "0x" + a.slice(2).padStart(64, "0");
+  assert.equal(hashPlan(plan((a) => a)), hashPlan(plan(long)));
+  assert.notEqual(hashPlan(plan((a) => a)), hashPlan(plan((a) => (a === "0xb" ? "0xc" : a))));
+});
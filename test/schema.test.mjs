@@ -0,0 +1,106 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Account, Network } from "@aptos-labs/ts-sdk";
+import { AptosClient } from "../dist/core/client.js";
+import { DynamicComposer } from "../dist/dynamic/composer.js";
+import { arg } from "../dist/dynamic/types.js";
+import { validatePlanJSON } from "../dist/dynamic/schema.js";
+
+const BOB = "0x" + "b".repeat(64);
+const client = new AptosClient({
+  network: Network.TESTNET,
+  publicKey: Account.generate().publicKey.toString(),
+});
+
+test("a serialized plan validates and loads back unchanged", () => {
+  const composer = new DynamicComposer(client)
+    .addSigner(BOB)
+    .addStep("withdraw", {
+      function: "0x1::primary_fungible_store::withdraw",
+      typeArguments: ["0x1::fungible_asset::Metadata"],
+      args: [arg.signer(), arg.address("0xa"), arg.u64(100n)],
+    })
+    .addStep("deposit", {
+      function: "0x1::primary_fungible_store::deposit",
+      args: [arg.address(BOB), arg.ref("withdraw", 0)],
+    })
+    .addStep("bob", {
+      function: "0x1::m::touch",
+      args: [arg.signer(0), arg.signer(1)],
+    });
+
+  const json = JSON.parse(JSON.stringify(composer.toJSON()));
+  const check = validatePlanJSON(json);
+  assert.equal(check.valid, true, check.valid ? "" : JSON.stringify(check.errors));
+
+  const loaded = DynamicComposer.fromJSON(client, json);
+  assert.deepEqual(loaded.toJSON(), composer.toJSON());
+  assert.equal(loaded.planHash(), composer.planHash());
+});
+
+test("signer index 0 is the sender, like no index", () => {
+  const plan = (signer) => ({ steps: [{ label: "a", function: "0x1::m::f", args: [signer] }] });
+  assert.equal(validatePlanJSON(plan({ kind: "signer", index: 0 })).valid, true);
+  assert.equal(validatePlanJSON(plan({ kind: "signer" })).valid, true);
+  const bad = validatePlanJSON(plan({ kind: "signer", index: -1 }));
+  assert.equal(bad.valid, false);
+  assert.equal(bad.errors[0].path, "$.steps[0].args[0].index");
+});
+
+test("every schema problem is reported with its path", () => {
+  const paths = (input) => {
+    const result = validatePlanJSON(input);
+    assert.equal(result.valid, false);
+    return result.errors.map((e) => e.path);
+  };
+
+  assert.deepEqual(paths(null), ["$"]);
+  assert.deepEqual(paths({ steps: [] }), ["$.steps"]);
+  assert.deepEqual(paths({ steps: [{ label: "a", function: "0x1::m::f", args: [] }], extra: 1 }), [
+    "$.extra",
+  ]);
+
+  assert.deepEqual(
+    paths({
+      steps: [
+        { label: "a", function: "not a function", args: [{ kind: "literal" }] },
+        { label: "a", function: "0x1::m::f", args: [{ kind: "ref", step: "a", returnIndex: -1, mode: "steal" }] },
+        { label: "b", function: "0x1::m::f", args: [{ kind: "input", name: "x" }], note: "" },
+      ],
+      guards: [{ kind: "min_delta", token: "", amount: 5 }, { kind: "nope" }],
+    }),
+    [
+      "$.guards[0].token",
+      "$.guards[0].amount",
+      "$.guards[1].kind",
+      "$.steps[0].function",
+      "$.steps[0].args[0].value",
+      "$.steps[1].label",
+      "$.steps[1].args[0].returnIndex",
+      "$.steps[1].args[0].mode",
+      "$.steps[2].note",
+      "$.steps[2].args[0].kind",
+    ],
+  );
+});
+
+test("typed literals are checked against their declared type", () => {
+  const result = validatePlanJSON({
+    steps: [
+      {
+        label: "a",
+        function: "0x1::m::f",
+        args: [
+          { kind: "literal", value: { type: "u64", value: "-5" } },
+          { kind: "literal", value: { type: "vector", elementType: "u8", items: "0x00" } },
+          { kind: "literal", value: { type: "option", elementType: "u8" } },
+        ],
+      },
+    ],
+  });
+  assert.equal(result.valid, false);
+  assert.deepEqual(
+    result.errors.map((e) => e.path),
+    ["$.steps[0].args[0].value.value", "$.steps[0].args[1].value.items", "$.steps[0].args[2].value.value"],
+  );
+});
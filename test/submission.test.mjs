@@ -0,0 +1,178 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  Account,
+  ChainId,
+  EntryFunction,
+  RawTransaction,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+  generateUserTransactionHash,
+} from "@aptos-labs/ts-sdk";
+import { SubmissionQueue } from "../dist/core/submission.js";
+
+/**
+ * A client whose account sits at `chain.sequence` and whose transactions
+ * commit only when `commit(seq)` is called. `submit.simple` fails once per
+ * sequence number listed in `chain.rejectOnce`.
+ */
+function mockClient(chain) {
+  const commits = new Map();
+  const gate = (seq) => {
+    if (!commits.has(seq)) {
+      let resolve;
+      commits.set(seq, { promise: new Promise((r) => (resolve = r)), resolve });
+    }
+    return commits.get(seq);
+  };
+  const client = {
+    signer: { signTransaction: async () => ({}) },
+    accountAddress: "0x" + "1".repeat(64),
+    aptos: {
+      getAccountInfo: async () => ({ sequence_number: String(chain.sequence) }),
+      transaction: {
+        submit: {
+          simple: async ({ transaction }) => {
+            const seq = transaction.rawTransaction.sequence_number;
+            if (chain.rejectOnce.delete(seq)) {
+              throw new Error("Transaction submission failed: SEQUENCE_NUMBER_TOO_NEW");
+            }
+            return { hash: `0x${seq}` };
+          },
+        },
+      },
+      waitForTransaction: async ({ transactionHash }) => {
+        await gate(BigInt(transactionHash.slice(2))).promise;
+        return { success: true, vm_status: "Executed successfully", gas_used: "1" };
+      },
+    },
+  };
+  return { client, commit: (seq) => gate(seq).resolve() };
+}
+
+const build = async (sequenceNumber) => ({
+  rawTransaction: {
+    sequence_number: sequenceNumber,
+    expiration_timestamp_secs: BigInt(Math.floor(Date.now() / 1000) + 60),
+  },
+});
+
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
+test("a resync while jobs are in flight doesn't reuse their numbers", async () => {
+  const chain = { sequence: 5n, rejectOnce: new Set([8n]) };
+  const { client, commit } = mockClient(chain);
+  const queue = new SubmissionQueue(client);
+  const submitted = [];
+  queue.onStatus((e) => e.status === "submitted" && submitted.push(e.sequenceNumber));
+
+  // 5, 6 and 7 wait to commit; 8 is rejected, resyncs and is retried
+  const jobs = [1, 2, 3, 4].map(() => queue.submit({ build }));
+  for (let i = 0; i < 20; i++) await tick();
+  assert.deepEqual(submitted, [5n, 6n, 7n, 8n]);
+
+  // The chain still reads 5: new work goes after every held number
+  const next = queue.submit({ build });
+  for (let i = 0; i < 20; i++) await tick();
+  assert.deepEqual(submitted, [5n, 6n, 7n, 8n, 9n]);
+
+  for (const seq of [5n, 6n, 7n, 8n, 9n]) commit(seq);
+  const results = await Promise.all([...jobs, next]);
+  assert.deepEqual(results.map((r) => r.hash), ["0x5", "0x6", "0x7", "0x8", "0x9"]);
+  assert.equal(queue.pending, 0);
+});
+
+test("numbers freed below an in-flight job are filled after a resync", async () => {
+  const chain = { sequence: 5n, rejectOnce: new Set() };
+  const { client, commit } = mockClient(chain);
+  const queue = new SubmissionQueue(client);
+  const submitted = [];
+  queue.onStatus((e) => e.status === "submitted" && submitted.push(e.sequenceNumber));
+
+  const a = queue.submit({ build });
+  const b = queue.submit({
+    build: async () => {
+      throw new Error("build failed");
+    },
+  });
+  const c = queue.submit({ build });
+  await assert.rejects(b, /build failed/);
+  for (let i = 0; i < 20; i++) await tick();
+  assert.deepEqual(submitted, [5n, 7n]);
+
+  // 6 was freed, but the resync forgets that locally
+  queue.resync();
+  const d = queue.submit({ build });
+  const e = queue.submit({ build });
+  for (let i = 0; i < 20; i++) await tick();
+  assert.deepEqual(submitted, [5n, 7n, 6n, 8n]);
+
+  for (const seq of [5n, 6n, 7n, 8n]) commit(seq);
+  await Promise.all([a, c, d, e]);
+  assert.equal(queue.pending, 0);
+});
+
+test("only a 4xx rejection frees a number; a server error waits on the hash", async () => {
+  const account = Account.generate();
+  const build = async (sequenceNumber) =>
+    new SimpleTransaction(
+      new RawTransaction(
+        account.accountAddress,
+        sequenceNumber,
+        new TransactionPayloadEntryFunction(
+          EntryFunction.build("0x1::aptos_account", "transfer", [], []),
+        ),
+        2000n,
+        100n,
+        BigInt(Math.floor(Date.now() / 1000) + 60),
+        new ChainId(2),
+      ),
+    );
+  const failures = new Map([
+    [5n, Object.assign(new Error("Service Unavailable"), { status: 503 })],
+    [6n, Object.assign(new Error("Invalid transaction"), { status: 400 })],
+  ]);
+  const pending = new Map();
+  const client = {
+    signer: { signTransaction: async (tx) => account.signTransactionWithAuthenticator(tx) },
+    accountAddress: account.accountAddress.toString(),
+    aptos: {
+      getAccountInfo: async () => ({ sequence_number: "5" }),
+      transaction: {
+        submit: {
+          simple: async (signed) => {
+            const seq = signed.transaction.rawTransaction.sequence_number;
+            const hash = generateUserTransactionHash(signed);
+            let resolve;
+            pending.set(seq, { hash, promise: new Promise((r) => (resolve = r)), resolve });
+            const failure = failures.get(seq);
+            failures.delete(seq);
+            if (failure) throw failure;
+            return { hash };
+          },
+        },
+      },
+      waitForTransaction: async ({ transactionHash }) => {
+        const entry = [...pending.values()].find((p) => p.hash === transactionHash);
+        await entry.promise;
+        return { success: true, vm_status: "Executed successfully", gas_used: "1" };
+      },
+    },
+  };
+  const queue = new SubmissionQueue(client);
+
+  // 5 hits a server error: it may be in the mempool, so its number stays held
+  const a = queue.submit({ build });
+  // 6 is refused by the node and goes to the next job
+  const b = queue.submit({ build });
+  await assert.rejects(b, /Invalid transaction/);
+  const c = queue.submit({ build });
+  for (let i = 0; i < 20; i++) await tick();
+  assert.equal(queue.pending, 2);
+  assert.deepEqual([...pending.keys()], [5n, 6n]);
+
+  for (const p of pending.values()) p.resolve();
+  const [resultA] = await Promise.all([a, c]);
+  assert.equal(resultA.hash, pending.get(5n).hash);
+  assert.equal(queue.pending, 0);
+});
@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { resolveTemplateParams } from "../dist/dynamic/template.js";
+
+const SENDER = "0x" + "5".repeat(64);
+
+const template = (params, args = []) => ({
+  version: 1,
+  steps: [{ label: "a", function: "0x1::m::f", args }],
+  params,
+});
+
+function problems(tpl, params) {
+  try {
+    resolveTemplateParams(tpl, params, SENDER);
+  } catch (e) {
+    return e.message.split("\n").slice(1).map((line) => line.trim());
+  }
+  assert.fail("expected resolveTemplateParams to throw");
+}
+
+test("resolves values, defaults and the sender placeholder", () => {
+  const resolved = resolveTemplateParams(
+    template({
+      amount: { type: "u64" },
+      to: { type: "address", default: "$sender" },
+      path: { type: "vector<address>" },
+      limit: { type: "0x1::option::Option<u64>" },
+    }),
+    { amount: "100", path: ["0x1", "0x2"], limit: null },
+    SENDER,
+  );
+  assert.equal(resolved.get("amount"), "100");
+  assert.equal(resolved.get("to"), SENDER);
+  assert.deepEqual(resolved.get("path"), {
+    type: "vector",
+    elementType: "address",
+    items: ["0x1", "0x2"],
+  });
+  assert.deepEqual(resolved.get("limit"), { type: "option", elementType: "u64", value: null });
+});
+
+test("lists every unknown, missing, undeclared and mistyped parameter", () => {
+  assert.deepEqual(
+    problems(
+      template(
+        { amount: { type: "u64" }, to: { type: "address" }, kind: { type: "not a type" } },
+        [{ kind: "param", name: "amount" }, { kind: "param", name: "typo" }],
+      ),
+      { amount: "-1", extra: 1 },
+    ),
+    [
+      'Unknown parameter "extra"',
+      'Parameter "amount": -1 is out of range for u64 (0..18446744073709551615) (type "u64")',
+      'Missing required parameter "to" (address)',
+      'Parameter "kind": invalid type "not a type"',
+      'Step "a" references undeclared parameter "typo"',
+    ],
+  );
+});
+
+test("coercion rejects arrays for scalars and null outside Option", () => {
+  assert.deepEqual(
+    problems(template({ amount: { type: "u64" }, to: { type: "address" } }), {
+      amount: ["1"],
+      to: null,
+    }),
+    [
+      'Parameter "amount": an array was supplied for non-vector type "u64"',
+      'Parameter "to": null is only valid for Option types, not "address"',
+    ],
+  );
+});
+
+test("vector elements are checked against the element type", () => {
+  const [problem] = problems(template({ path: { type: "vector<address>" } }), {
+    path: ["0x1", "not an address"],
+  });
+  assert.match(problem, /^Parameter "path": .*not an address/);
+});
@@ -0,0 +1,20 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { clearTokenCache, resolveToken } from "../dist/core/token-metadata.js";
+
+const node = (network, symbol) => ({
+  config: { network },
+  getAccountResource: async () => ({ name: symbol, symbol, decimals: 6, icon_uri: "" }),
+});
+
+test("token metadata is cached per network", async () => {
+  clearTokenCache();
+  const mainnet = await resolveToken(node("mainnet", "USDC"), "0xa");
+  const testnet = await resolveToken(node("testnet", "TEST"), "0xa");
+  assert.equal(mainnet.symbol, "USDC");
+  assert.equal(testnet.symbol, "TEST");
+
+  // The same network, in another address form, hits the cache
+  const again = await resolveToken(node("mainnet", "OTHER"), "0x000a");
+  assert.equal(again.symbol, "USDC");
+});
@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  AccountAddress,
+  ChainId,
+  EntryFunction,
+  RawTransaction,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+} from "@aptos-labs/ts-sdk";
+import { executeTransaction } from "../dist/core/transaction.js";
+
+const transfer = (sequenceNumber, expiration) =>
+  new SimpleTransaction(
+    new RawTransaction(
+      AccountAddress.from("0x1"),
+      sequenceNumber,
+      new TransactionPayloadEntryFunction(
+        EntryFunction.build("0x1::aptos_account", "transfer", [], []),
+      ),
+      2000n,
+      100n,
+      expiration,
+      new ChainId(2),
+    ),
+  );
+
+test("executeTransaction rebuilds retries with a fresh expiration", async () => {
+  const expired = BigInt(Math.floor(Date.now() / 1000) - 60);
+  const transaction = transfer(3n, expired);
+  const built = [];
+  const client = {
+    submissions: {
+      submit: async (job) => {
+        built.push(await job.build(3n), await job.build(3n), await job.build(4n));
+        return { hash: "0x1", success: true };
+      },
+    },
+  };
+
+  await executeTransaction(client, transaction);
+  assert.equal(built[0], transaction);
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  for (const [tx, seq] of [[built[1], 3n], [built[2], 4n]]) {
+    assert.equal(tx.rawTransaction.sequence_number, seq);
+    assert.ok(tx.rawTransaction.expiration_timestamp_secs > now);
+    assert.deepEqual(tx.rawTransaction.payload, transaction.rawTransaction.payload);
+  }
+});
@@ -0,0 +1,151 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { arg } from "../dist/dynamic/types.js";
+import { validateSteps } from "../dist/dynamic/validate.js";
+
+const fn = (name, params, ret = []) => ({
+  name,
+  visibility: "public",
+  is_entry: false,
+  is_view: false,
+  generic_type_params: [],
+  params,
+  return: ret,
+});
+
+const MODULE = `0x${"cafe".padStart(64, "0")}::m`;
+const COIN = `${MODULE}::Coin`;
+
+/** A module with a Coin without copy or drop, and functions producing and taking it */
+const aptos = {
+  getAccountModule: async () => ({
+    bytecode: "0x",
+    abi: {
+      address: MODULE.split("::")[0],
+      name: "m",
+      friends: [],
+      structs: [
+        { name: "Coin", is_native: false, abilities: ["store"], generic_type_params: [], fields: [] },
+      ],
+      exposed_functions: [
+        fn("make", [], [COIN]),
+        fn("amount", [], ["u64"]),
+        fn("take", [COIN]),
+        fn("take_amount", ["u64"]),
+        fn("take_amount_ref", ["&u64"]),
+        fn("peek", [`&${COIN}`]),
+        fn("poke", [`&mut ${COIN}`]),
+        fn("take_and_peek", [COIN, `&${COIN}`]),
+        fn("peek_and_poke", [`&${COIN}`, `&mut ${COIN}`]),
+      ],
+    },
+  }),
+};
+
+const step = (label, name, args = []) => ({ label, step: { function: `${MODULE}::${name}`, args } });
+
+async function codes(steps) {
+  const { warnings } = await validateSteps(aptos, steps);
+  return warnings.map((w) => w.code);
+}
+
+// ── checkArgType ──────────────────────────────────────────────────
+
+test("a literal of the wrong type is a LITERAL_TYPE_ERROR", async () => {
+  assert.deepEqual(await codes([step("a", "take_amount", [arg.address("0x1")])]), [
+    "LITERAL_TYPE_ERROR",
+  ]);
+});
+
+test("a literal passed to a reference parameter is a LITERAL_TYPE_ERROR", async () => {
+  assert.deepEqual(await codes([step("a", "take_amount_ref", [arg.u64(1n)])]), [
+    "LITERAL_TYPE_ERROR",
+  ]);
+});
+
+test("a ref to a later step or a missing return is a REF_STEP_ERROR", async () => {
+  assert.deepEqual(
+    await codes([step("a", "take", [arg.ref("b", 0)]), step("b", "make")]),
+    ["REF_STEP_ERROR"],
+  );
+  assert.deepEqual(await codes([step("a", "make"), step("b", "take", [arg.ref("a", 1)])]), [
+    "REF_STEP_ERROR",
+    "UNCONSUMED_RESOURCE",
+  ]);
+});
+
+test("a ref mode that doesn't fit the parameter is a REF_MODE_ERROR", async () => {
+  assert.deepEqual(
+    await codes([
+      step("a", "make"),
+      step("b", "poke", [arg.ref("a", 0, "borrow")]),
+      step("c", "take", [arg.ref("a", 0)]),
+    ]),
+    ["REF_MODE_ERROR"],
+  );
+});
+
+test("a ref of another type is a REF_TYPE_ERROR", async () => {
+  assert.deepEqual(
+    await codes([step("a", "amount"), step("b", "take", [arg.ref("a", 0, "copy")])]),
+    ["REF_TYPE_ERROR"],
+  );
+});
+
+// ── checkOwnership ────────────────────────────────────────────────
+
+test("moving a value twice is a DOUBLE_MOVE_ERROR", async () => {
+  assert.deepEqual(
+    await codes([
+      step("a", "make"),
+      step("b", "take", [arg.ref("a", 0)]),
+      step("c", "take", [arg.ref("a", 0)]),
+    ]),
+    ["DOUBLE_MOVE_ERROR"],
+  );
+});
+
+test("borrowing a moved value is a USE_AFTER_MOVE_ERROR", async () => {
+  assert.deepEqual(
+    await codes([
+      step("a", "make"),
+      step("b", "take", [arg.ref("a", 0)]),
+      step("c", "peek", [arg.ref("a", 0, "borrow")]),
+    ]),
+    ["USE_AFTER_MOVE_ERROR"],
+  );
+});
+
+test("copying a value without copy is a COPY_ABILITY_ERROR", async () => {
+  assert.deepEqual(
+    await codes([
+      step("a", "make"),
+      step("b", "take", [arg.ref("a", 0, "copy")]),
+      step("c", "take", [arg.ref("a", 0)]),
+    ]),
+    ["COPY_ABILITY_ERROR"],
+  );
+  // Primitives have copy
+  assert.deepEqual(
+    await codes([step("a", "amount"), step("b", "take_amount", [arg.ref("a", 0, "copy")])]),
+    [],
+  );
+});
+
+test("moving or mutably borrowing a value also used in the same call is a BORROW_CONFLICT_ERROR", async () => {
+  assert.deepEqual(
+    await codes([
+      step("a", "make"),
+      step("b", "take_and_peek", [arg.ref("a", 0), arg.ref("a", 0, "borrow")]),
+    ]),
+    ["BORROW_CONFLICT_ERROR"],
+  );
+  assert.deepEqual(
+    await codes([
+      step("a", "make"),
+      step("b", "peek_and_poke", [arg.ref("a", 0, "borrow"), arg.ref("a", 0, "borrow_mut")]),
+      step("c", "take", [arg.ref("a", 0)]),
+    ]),
+    ["BORROW_CONFLICT_ERROR"],
+  );
+});